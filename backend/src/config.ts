@@ -34,19 +34,96 @@ const uploadsDir = process.env.RAILWAY_ENVIRONMENT
   ? '/tmp/uploads'
   : path.resolve(__dirname, '../uploads');
 
+// Persistent data (lookup cache, currency rates); /tmp on Railway like uploads
+const dataDir = process.env.RAILWAY_ENVIRONMENT
+  ? '/tmp/data'
+  : path.resolve(__dirname, '../data');
+
+function envNumber(name: string, fallback: number): number {
+  const value = parseFloat(process.env[name] ?? '');
+  return Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+const parserProvider = process.env.PARSER_PROVIDER === 'fixture' ? 'fixture' : 'claude';
+
 export const config = {
   port: parseInt(process.env.PORT || '3001', 10),
   anthropicApiKey: process.env.ANTHROPIC_API_KEY || '',
   wineSearcherApiKey: process.env.WINE_SEARCHER_API_KEY || '',
   hasWineSearcherApi: Boolean(process.env.WINE_SEARCHER_API_KEY),
+  parserProvider,
+  parserModel: process.env.PARSER_MODEL || 'claude-sonnet-4-20250514',
+  parserFixturesDir: process.env.PARSER_FIXTURES_DIR
+    ? path.resolve(process.env.PARSER_FIXTURES_DIR)
+    : path.resolve(__dirname, '../fixtures/parser'),
+  parserRecord: process.env.PARSER_RECORD === '1',
   uploadsDir,
   maxFileSizeMB: 20,
+  maxFilesPerUpload: 10,
+  urlFetchTimeoutMs: 20_000,
+  // Let URL imports reach loopback, private-network and link-local hosts — for local testing only
+  urlFetchAllowPrivate: process.env.URL_FETCH_ALLOW_PRIVATE === '1',
+  parsePagesPerChunk: 6,
+  parseConcurrency: 4,
+  // Price/score sources in priority order; each field is taken from the first provider that supplies it
+  lookupProviders: (process.env.LOOKUP_PROVIDERS || 'wine-searcher,cellartracker,web-search')
+    .split(',')
+    .map(name => name.trim())
+    .filter(Boolean),
+  // Also run the web search fallback when a price was found but a score wasn't — one more paid call for most wines
+  webSearchFillGaps: process.env.WEB_SEARCH_FILL_GAPS === '1',
+  // Lookup results survive restarts. Prices move weekly, critic/community scores barely move;
+  // "not found" answers are retried sooner in case the wine has since been listed.
+  lookupCacheFile: process.env.LOOKUP_CACHE_FILE
+    ? path.resolve(process.env.LOOKUP_CACHE_FILE)
+    : path.resolve(dataDir, 'lookup-cache.json'),
+  lookupCacheTtlDays: {
+    price: envNumber('LOOKUP_CACHE_PRICE_TTL_DAYS', 7),
+    score: envNumber('LOOKUP_CACHE_SCORE_TTL_DAYS', 90),
+    miss: envNumber('LOOKUP_CACHE_MISS_TTL_DAYS', 1),
+  },
+  // Outbound API requests: a token bucket and a cap on requests in flight per API (see request-scheduler.ts).
+  // Rate-limited, overloaded and transient failures are retried with backoff, honouring Retry-After.
+  anthropicRequestsPerMinute: Math.max(1, envNumber('ANTHROPIC_REQUESTS_PER_MINUTE', 50)),
+  anthropicMaxConcurrent: Math.max(1, envNumber('ANTHROPIC_MAX_CONCURRENT', 8)),
+  wineSearcherRequestsPerSecond: Math.max(0.1, envNumber('WINE_SEARCHER_REQUESTS_PER_SECOND', 2)),
+  wineSearcherMaxConcurrent: Math.max(1, envNumber('WINE_SEARCHER_MAX_CONCURRENT', 4)),
+  requestMaxRetries: Math.round(envNumber('REQUEST_MAX_RETRIES', 4)),
+  // API budgets, counted across restarts in the usage file (see api-usage.ts); 0 = no limit.
+  // The Wine-Searcher free trial allows 100 calls a day — the default leaves a small buffer.
+  // Token limits apply to lookups only: parsing a list is counted but never refused.
+  apiUsageFile: process.env.API_USAGE_FILE
+    ? path.resolve(process.env.API_USAGE_FILE)
+    : path.resolve(dataDir, 'api-usage.json'),
+  wineSearcherDailyLimit: Math.round(envNumber('WINE_SEARCHER_DAILY_LIMIT', 95)),
+  wineSearcherSessionLimit: Math.round(envNumber('WINE_SEARCHER_SESSION_LIMIT', 0)),
+  anthropicDailyTokenLimit: Math.round(envNumber('ANTHROPIC_DAILY_TOKEN_LIMIT', 0)),
+  anthropicSessionTokenLimit: Math.round(envNumber('ANTHROPIC_SESSION_TOKEN_LIMIT', 0)),
+  // Exchange rates for converting retail prices into the menu's currency. Built-in rates are used
+  // until a rates file (same shape as the feed) or a feed URL is available; the feed is re-read periodically.
+  currencyRatesFile: process.env.CURRENCY_RATES_FILE
+    ? path.resolve(process.env.CURRENCY_RATES_FILE)
+    : path.resolve(dataDir, 'currency-rates.json'),
+  currencyRatesUrl: process.env.CURRENCY_RATES_URL || '',
+  currencyRatesRefreshHours: envNumber('CURRENCY_RATES_REFRESH_HOURS', 24),
+  // Wine-Searcher matches scoring below this (0–1, see matchConfidence) are refused rather than priced
+  matchConfidenceThreshold: Math.min(1, envNumber('MATCH_CONFIDENCE_THRESHOLD', 0.6)),
+  // Value score model: named profiles (see scoring-profiles.ts) — the built-ins plus any in this JSON file
+  scoringProfilesFile: process.env.SCORING_PROFILES_FILE
+    ? path.resolve(process.env.SCORING_PROFILES_FILE)
+    : path.resolve(dataDir, 'scoring-profiles.json'),
+  defaultScoringProfile: process.env.DEFAULT_SCORING_PROFILE || 'balanced',
+  // Admin endpoints (/api/admin) are disabled unless a token is set
+  adminToken: process.env.ADMIN_TOKEN || '',
 };
 
 export function validateConfig() {
   if (!config.anthropicApiKey) {
-    console.error('ERROR: ANTHROPIC_API_KEY is required. Copy .env.example to .env and add your key.');
-    process.exit(1);
+    if (config.parserProvider !== 'fixture') {
+      console.error('ERROR: ANTHROPIC_API_KEY is required. Copy .env.example to .env and add your key, or set PARSER_PROVIDER=fixture to run offline.');
+      process.exit(1);
+    }
+    console.log('No ANTHROPIC_API_KEY — running offline with recorded parser fixtures; web search lookups will return no data');
   }
   if (config.hasWineSearcherApi) {
     console.log('Wine-Searcher API key configured — using API for price/critic data');
@@ -1,11 +1,15 @@
 import express from 'express';
 import cors from 'cors';
 import { config, validateConfig } from './config.js';
+import { startRateRefresh } from './services/currency.js';
 import uploadRouter from './routes/upload.js';
 import winesRouter from './routes/wines.js';
 import lookupRouter from './routes/lookup.js';
+import adminRouter from './routes/admin.js';
+import scoringRouter from './routes/scoring.js';
 
 validateConfig();
+startRateRefresh();
 
 const app = express();
 
@@ -29,6 +33,8 @@ app.use(express.json());
 app.use('/api/upload', uploadRouter);
 app.use('/api/wines', winesRouter);
 app.use('/api/lookup', lookupRouter);
+app.use('/api/scoring', scoringRouter);
+app.use('/api/admin', adminRouter);
 
 app.get('/api/health', (_req, res) => {
   res.json({ status: 'ok' });
@@ -0,0 +1,121 @@
+import { Router, type RequestHandler } from 'express';
+import crypto from 'crypto';
+import { config } from '../config.js';
+import { getCacheStats, listCacheEntries, purgeCache } from '../services/lookup-cache.js';
+import { lookupWinesBatch } from '../services/wine-lookup.js';
+import { getRateTable, isCurrencyCode, refreshRates } from '../services/currency.js';
+import { reloadScoringProfiles, rescoreSession, type ScoringProfile } from '../services/scoring-profiles.js';
+import { listSessions, setSession } from '../utils/sessions.js';
+import type { WineIdentity } from '../types/wine.js';
+
+const router = Router();
+
+const MAX_WARM_WINES = 200;
+const WARM_WAVE_SIZE = 5;
+
+// Bearer-token check; with no ADMIN_TOKEN configured the endpoints are off entirely
+const requireAdmin: RequestHandler = (req, res, next) => {
+  if (!config.adminToken) {
+    res.status(403).json({ error: 'Admin endpoints are disabled (set ADMIN_TOKEN)' });
+    return;
+  }
+  const given = Buffer.from(req.headers.authorization?.replace(/^Bearer\s+/i, '') ?? '');
+  const expected = Buffer.from(config.adminToken);
+  if (given.length !== expected.length || !crypto.timingSafeEqual(given, expected)) {
+    res.status(401).json({ error: 'Invalid admin token' });
+    return;
+  }
+  next();
+};
+
+router.use(requireAdmin);
+
+// Inspect cache entries, optionally filtered by a substring of "name|vintage|currency"
+router.get('/cache', (req, res) => {
+  const search = typeof req.query.search === 'string' ? req.query.search : undefined;
+  const limit = Math.min(500, Math.max(1, parseInt(String(req.query.limit ?? '50'), 10) || 50));
+  const offset = Math.max(0, parseInt(String(req.query.offset ?? '0'), 10) || 0);
+  res.json({ ...getCacheStats(), ...listCacheEntries({ search, limit, offset }) });
+});
+
+// Purge matching entries (?search=...), only expired ones (?expired=1), or everything
+router.delete('/cache', (req, res) => {
+  const search = typeof req.query.search === 'string' ? req.query.search : undefined;
+  const expiredOnly = req.query.expired === '1' || req.query.expired === 'true';
+  const removed = purgeCache({ search, expiredOnly });
+  console.log(`Admin: purged ${removed} lookup cache entries`);
+  res.json({ removed });
+});
+
+// Pre-warm the cache for a list of wines, e.g. a restaurant's list ahead of a visit.
+// Body: { wines: [{ name, producer?, vintage? }], currency? }. Runs in the background.
+router.post('/cache/warm', (req, res) => {
+  const { wines, currency = 'USD' } = req.body ?? {};
+  if (!Array.isArray(wines) || wines.length === 0) {
+    res.status(400).json({ error: 'wines must be a non-empty array' });
+    return;
+  }
+  if (typeof currency !== 'string' || !isCurrencyCode(currency)) {
+    res.status(400).json({ error: 'currency must be an ISO 4217 code' });
+    return;
+  }
+  if (wines.length > MAX_WARM_WINES) {
+    res.status(400).json({ error: `At most ${MAX_WARM_WINES} wines per request` });
+    return;
+  }
+
+  const targets: WineIdentity[] = [];
+  for (const w of wines) {
+    if (!w || typeof w.name !== 'string' || !w.name.trim()) {
+      res.status(400).json({ error: 'Every wine needs a name' });
+      return;
+    }
+    targets.push({
+      name: w.name.trim(),
+      producer: typeof w.producer === 'string' ? w.producer : '',
+      vintage: Number.isInteger(w.vintage) ? w.vintage : null,
+    });
+  }
+
+  res.status(202).json({ queued: targets.length, currency });
+
+  (async () => {
+    for (let i = 0; i < targets.length; i += WARM_WAVE_SIZE) {
+      await lookupWinesBatch(targets.slice(i, i + WARM_WAVE_SIZE), currency);
+    }
+    console.log(`Admin: warmed lookup cache for ${targets.length} wines (${currency})`);
+  })().catch(err => console.error('Cache warm error:', err));
+});
+
+// Exchange rates used to convert retail prices into the menu's currency
+router.get('/currency', (_req, res) => {
+  res.json(getRateTable());
+});
+
+// Reload rates now from the feed (CURRENCY_RATES_URL) or the rates file
+router.post('/currency/refresh', async (_req, res) => {
+  try {
+    res.json(await refreshRates());
+  } catch (err) {
+    res.status(502).json({ error: (err as Error).message });
+  }
+});
+
+// Re-read SCORING_PROFILES_FILE and rescore every stored session with its (possibly changed) profile
+router.post('/scoring/reload', (_req, res) => {
+  let profiles: ScoringProfile[];
+  try {
+    profiles = reloadScoringProfiles();
+  } catch (err) {
+    res.status(400).json({ error: (err as Error).message });
+    return;
+  }
+  const sessions = listSessions();
+  for (const session of sessions) {
+    rescoreSession(session);
+    setSession(session);
+  }
+  res.json({ profiles, rescoredSessions: sessions.length });
+});
+
+export default router;
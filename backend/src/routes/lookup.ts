@@ -1,10 +1,72 @@
-import { Router } from 'express';
+import { Router, type Request, type Response } from 'express';
 import { getSession, setSession } from '../utils/sessions.js';
-import { lookupWinesBatch, clearWineCache, getLookupStatus } from '../services/wine-lookup.js';
-import { calculateMarkup, calculateValueScore } from '../services/value-calculator.js';
+import { lookupWinesBatch, lookupWine, getLookupStatus, exceedsLookupBudget, type WineLookupData, type WineLookupOptions } from '../services/wine-lookup.js';
+import { saveMatchChoice } from '../services/lookup-cache.js';
+import { getLookupProvider, LOOKUP_FIELDS, type LookupField } from '../services/lookup-providers.js';
+import { lookupStatusFor, scoreWine } from '../services/value-calculator.js';
+import { profileFor, rescoreSession } from '../services/scoring-profiles.js';
+import { assignPriceTiers } from '../services/price-tiers.js';
+import type { SessionData, WineValueResult } from '../types/wine.js';
 
 const router = Router();
 
+// How often a lookup started mid-parse checks for newly extracted wines
+const PARSE_POLL_MS = 1000;
+
+// Running lookups by session ID, so DELETE can stop them
+const activeLookups = new Map<string, AbortController>();
+
+// Copy lookup results onto a wine and recompute its links, markup, value score and status.
+// Fields listed in `replace` take the looked-up value; the rest keep any value the wine
+// already has and only fill in nulls.
+function applyLookupData(session: SessionData, wine: WineValueResult, data: WineLookupData, replace: LookupField[] = []): void {
+  const sources = { ...data.fieldSources, ...wine.fieldSources };
+  for (const field of LOOKUP_FIELDS) {
+    if (!replace.includes(field)) {
+      wine[field] = wine[field] ?? data[field];
+      continue;
+    }
+    wine[field] = data[field];
+    if (data.fieldSources[field]) sources[field] = data.fieldSources[field];
+    else delete sources[field];
+  }
+  wine.communityReviewCount = replace.includes('communityScore')
+    ? data.communityReviewCount
+    : wine.communityReviewCount ?? data.communityReviewCount;
+  wine.fieldSources = sources;
+  if (data.matchCandidates) wine.matchCandidates = data.matchCandidates;
+  // The match says what the retail price is for, so a fresh price without one drops the old match
+  if (data.match || replace.includes('retailPriceAvg')) wine.match = data.match ?? null;
+
+  // Generate links for user to verify
+  const searchName = encodeURIComponent(wine.name.replace(/ /g, '+'));
+  wine.wineSearcherUrl = `https://www.wine-searcher.com/find/${searchName}${wine.vintage ? '/' + wine.vintage : ''}`;
+  wine.cellarTrackerUrl = `https://www.cellartracker.com/list.html?szSearch=${encodeURIComponent(wine.name + (wine.vintage ? ' ' + wine.vintage : ''))}`;
+
+  // Calculate derived values
+  scoreWine(wine, profileFor(session), session);
+  wine.lookupStatus = lookupStatusFor(wine);
+}
+
+// API budget and cache status. With ?sessionId=, also that list's own usage and limits, and
+// an estimate of the Wine-Searcher calls looking up its pending wines would take.
+router.get('/status', (req, res) => {
+  const { sessionId } = req.query;
+  if (sessionId === undefined) {
+    res.json(getLookupStatus());
+    return;
+  }
+  const session = getSession(String(sessionId));
+  if (!session) {
+    res.status(404).json({ error: 'Session not found' });
+    return;
+  }
+  res.json(getLookupStatus(session));
+});
+
+// Look up every pending wine, including those parsed after the lookup starts. Body (optional):
+//   overBudgetOk — keep going when wines parsed later would go over the API budget; otherwise
+//                  the lookup stops there with `budgetPaused` set, for the client to ask first
 router.post('/:sessionId', async (req, res) => {
   const session = getSession(req.params.sessionId);
   if (!session) {
@@ -12,25 +74,38 @@ router.post('/:sessionId', async (req, res) => {
     return;
   }
 
+  const { overBudgetOk = false } = req.body ?? {};
+  if (typeof overBudgetOk !== 'boolean') {
+    res.status(400).json({ error: 'overBudgetOk must be a boolean' });
+    return;
+  }
+
   if (session.status === 'looking_up') {
     res.status(409).json({ error: 'Lookup already in progress' });
     return;
   }
 
   session.status = 'looking_up';
+  session.error = undefined;
+  session.budgetPaused = undefined;
   setSession(session);
 
+  const controller = new AbortController();
+  const { signal } = controller;
+  activeLookups.set(session.id, controller);
+
   // Return immediately, do lookups in background
   res.json({ message: 'Lookup started', sessionId: session.id });
 
   const sess = session; // TS narrowing: guaranteed non-undefined after early return above
 
   try {
-    const pendingWines = sess.wines.filter(w => w.lookupStatus === 'pending');
+    const isPending = (w: WineValueResult) => w.lookupStatus === 'pending';
+    const pendingWines = sess.wines.filter(isPending);
 
     // Log API budget
-    const lookupStatus = getLookupStatus();
-    console.log(`Starting lookup: ${pendingWines.length} wines, API calls remaining today: ${lookupStatus.apiCallsRemaining}, cache size: ${lookupStatus.cacheSize}`);
+    const { wineSearcher, anthropic, cacheSize } = getLookupStatus(sess);
+    console.log(`Starting lookup: ${pendingWines.length} wines, Wine-Searcher calls left: ${wineSearcher.remaining ?? 'unlimited'}, Anthropic tokens left: ${anthropic.tokensRemaining ?? 'unlimited'}, cache size: ${cacheSize}`);
 
     // Each wine gets its own API call with web search, run in parallel waves
     const WAVE_SIZE = 5;
@@ -45,78 +120,65 @@ router.post('/:sessionId', async (req, res) => {
 
       for (let waveIdx = 0; waveIdx < waves.length; waveIdx++) {
         const wave = waves[waveIdx];
+        signal.throwIfAborted();
         console.log(`  Wave ${waveIdx + 1}/${waves.length} (${wave.length} wines in parallel)`);
 
-        const results = await lookupWinesBatch(wave, sess.currency);
+        const results = await lookupWinesBatch(wave, sess.currency, signal, sess.apiUsage);
 
         for (let i = 0; i < wave.length; i++) {
           const wine = wave[i];
           const data = results[i];
 
           if (data) {
-            // Merge data — keep existing non-null values, fill in nulls from new data
-            wine.retailPriceAvg = wine.retailPriceAvg ?? data.retailPriceAvg;
-            wine.retailPriceMin = wine.retailPriceMin ?? data.retailPriceMin;
-            wine.criticScore = wine.criticScore ?? data.criticScore;
-            wine.communityScore = wine.communityScore ?? data.communityScore;
-            wine.communityReviewCount = wine.communityReviewCount ?? data.communityReviewCount;
-            wine.dataSource = data.dataSource;
-
-            // Generate links for user to verify
-            const searchName = encodeURIComponent(wine.name.replace(/ /g, '+'));
-            wine.wineSearcherUrl = `https://www.wine-searcher.com/find/${searchName}${wine.vintage ? '/' + wine.vintage : ''}`;
-            wine.cellarTrackerUrl = `https://www.cellartracker.com/list.html?szSearch=${encodeURIComponent(wine.name + (wine.vintage ? ' ' + wine.vintage : ''))}`;
-
-            // Calculate derived values
-            if (wine.retailPriceAvg) {
-              wine.markupPercent = Math.round(calculateMarkup(wine.restaurantPrice, wine.retailPriceAvg));
-            }
-
-            wine.valueScore = calculateValueScore(
-              wine.restaurantPrice,
-              wine.retailPriceAvg,
-              wine.criticScore,
-              wine.communityScore
-            );
-
-            // Determine lookup status — 'found' if we have enough for a value score
-            if (wine.valueScore !== null) {
-              wine.lookupStatus = 'found';
-            } else if (wine.retailPriceAvg || wine.criticScore || wine.communityScore) {
-              wine.lookupStatus = 'partial';
-            } else {
-              wine.lookupStatus = 'not_found';
-            }
-          } else {
-            if (!wine.retailPriceAvg && !wine.criticScore && !wine.communityScore) {
-              wine.lookupStatus = 'not_found';
-            }
+            applyLookupData(sess, wine, data);
+          } else if (!wine.retailPriceAvg && !wine.criticScore && !wine.communityScore) {
+            wine.lookupStatus = 'not_found';
           }
         }
 
         // Persist after each wave so polling sees progress
+        assignPriceTiers(sess);
         setSession(sess);
       }
     }
 
-    // First pass: look up all pending wines
-    await runWaves(pendingWines, 'Pass 1');
+    // First pass: look up all pending wines. If the list is still being parsed,
+    // keep going until the parser is done and every wine it added has been looked up.
+    const attempted = new Set<WineValueResult>();
+    let batch = pendingWines;
+    while (batch.length > 0 || sess.parseInProgress) {
+      signal.throwIfAborted();
+      if (batch.length > 0) {
+        // The client checked the budget against the wines there were when it started the lookup
+        if (!overBudgetOk && exceedsLookupBudget(sess, batch)) {
+          console.log(`Lookup paused for session ${sess.id}: ${batch.length} newly parsed wines would go over the API budget`);
+          sess.status = 'cancelled';
+          sess.budgetPaused = true;
+          setSession(sess);
+          return;
+        }
+        batch.forEach(w => attempted.add(w));
+        await runWaves(batch, 'Pass 1');
+      } else {
+        await new Promise(resolve => setTimeout(resolve, PARSE_POLL_MS));
+      }
+      batch = sess.wines.filter(w => isPending(w) && !attempted.has(w));
+    }
 
-    // Second pass: retry wines that are still missing value scores
-    // Clear their cache entries so we get fresh search results
+    // Second pass: retry wines that are still missing value scores. Only fields no provider
+    // answered (errors, rate limits) are asked again; fresh cached values and misses stand.
     const needsRetry = sess.wines.filter(w =>
       w.valueScore === null && w.lookupStatus !== 'pending'
     );
 
+    signal.throwIfAborted();
     if (needsRetry.length > 0) {
       console.log(`\nRetrying ${needsRetry.length} wines that are missing value scores...`);
-      // Reset their cache so they get fresh search results
-      for (const wine of needsRetry) {
-        clearWineCache(wine, sess.currency);
-      }
       await runWaves(needsRetry, 'Pass 2 (retry)');
     }
 
+    // Wines scored early had fewer looked-up neighbours to base their community score prior on
+    rescoreSession(sess);
     sess.status = 'complete';
     setSession(sess);
 
@@ -124,11 +186,138 @@ router.post('/:sessionId', async (req, res) => {
     const total = sess.wines.length;
     console.log(`Lookup complete for session ${sess.id}: ${scored}/${total} wines scored`);
   } catch (err) {
+    // Cancelled: DELETE has already updated the session, and a newer lookup may since have started
+    if (signal.aborted) {
+      console.log(`Lookup cancelled for session ${sess.id}`);
+      return;
+    }
     console.error('Lookup error:', err);
     sess.status = 'error';
     sess.error = (err as Error).message;
     setSession(sess);
+  } finally {
+    if (activeLookups.get(sess.id) === controller) activeLookups.delete(sess.id);
+  }
+});
+
+// Stop a running lookup. Wines already looked up keep their results; the rest stay pending
+// and are picked up if the lookup is started again.
+router.delete('/:sessionId', (req, res) => {
+  const session = getSession(req.params.sessionId);
+  if (!session) {
+    res.status(404).json({ error: 'Session not found' });
+    return;
   }
+
+  const controller = activeLookups.get(session.id);
+  if (!controller || session.status !== 'looking_up') {
+    res.status(409).json({ error: 'No lookup in progress' });
+    return;
+  }
+
+  controller.abort();
+  activeLookups.delete(session.id);
+  session.status = 'cancelled';
+  setSession(session);
+  res.json(session);
+});
+
+// ── Single-wine lookups ────────────────────────────────────────
+// The wine at :index, or undefined once an error response has been sent
+function findTarget(req: Request, res: Response): { session: SessionData; wine: WineValueResult } | undefined {
+  const session = getSession(req.params.sessionId);
+  if (!session) {
+    res.status(404).json({ error: 'Session not found' });
+    return undefined;
+  }
+
+  const index = parseInt(req.params.index);
+  if (isNaN(index) || index < 0 || index >= session.wines.length) {
+    res.status(400).json({ error: 'Invalid wine index' });
+    return undefined;
+  }
+
+  if (session.status === 'looking_up') {
+    res.status(409).json({ error: 'A lookup is already running for this list' });
+    return undefined;
+  }
+
+  return { session, wine: session.wines[index] };
+}
+
+// Look the wine up again and respond with the updated session. Fields the lookup answers
+// replace the wine's current values; the lookup stops if the client goes away.
+async function relookup(res: Response, session: SessionData, wine: WineValueResult, options: WineLookupOptions): Promise<void> {
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableFinished) controller.abort();
+  });
+
+  try {
+    const { data, answered } = await lookupWine(wine, session.currency, { ...options, signal: controller.signal, usage: session.apiUsage });
+    applyLookupData(session, wine, data, answered);
+    assignPriceTiers(session);
+    setSession(session);
+    res.json(session);
+  } catch (err) {
+    if (controller.signal.aborted) return;
+    console.error('Wine refresh error:', err);
+    res.status(500).json({ error: (err as Error).message });
+  }
+}
+
+// Re-run the lookup for one wine, e.g. when its prices look wrong. Body (all optional):
+//   bypassCache — ignore cached values and ask the providers again
+//   source      — only ask this provider ("wine-searcher", "cellartracker", "web-search")
+router.post('/:sessionId/:index', async (req, res) => {
+  const target = findTarget(req, res);
+  if (!target) return;
+
+  const { bypassCache = false, source } = req.body ?? {};
+  if (typeof bypassCache !== 'boolean') {
+    res.status(400).json({ error: 'bypassCache must be a boolean' });
+    return;
+  }
+
+  const provider = source === undefined ? undefined : getLookupProvider(String(source));
+  if (source !== undefined) {
+    if (!provider) {
+      res.status(400).json({ error: `Unknown source "${source}"` });
+      return;
+    }
+    if (!provider.isAvailable()) {
+      res.status(400).json({ error: `Source "${source}" is not configured` });
+      return;
+    }
+  }
+
+  console.log(`Refreshing "${target.wine.name}" (${provider ? provider.name : 'all sources'}${bypassCache ? ', bypassing cache' : ''})`);
+  await relookup(res, target.session, target.wine, { providers: provider ? [provider] : undefined, bypassCache });
+});
+
+// Resolve an ambiguous Wine-Searcher match. Body: { name } — one of the wine's matchCandidates.
+// The choice is remembered for this menu text, so later lookups go straight to that wine.
+router.post('/:sessionId/:index/match', async (req, res) => {
+  const target = findTarget(req, res);
+  if (!target) return;
+  const { session, wine } = target;
+
+  const name = req.body?.name;
+  if (typeof name !== 'string' || !wine.matchCandidates.some(c => c.name === name)) {
+    res.status(400).json({ error: 'name must be one of the wine\'s match candidates' });
+    return;
+  }
+
+  const provider = getLookupProvider('wine-searcher');
+  if (!provider?.isAvailable()) {
+    res.status(400).json({ error: 'Source "wine-searcher" is not configured' });
+    return;
+  }
+
+  saveMatchChoice(wine, name);
+  wine.matchCandidates = [];
+  console.log(`Matched "${wine.name}" to "${name}"`);
+  await relookup(res, session, wine, { providers: [provider], bypassCache: true });
 });
 
 export default router;
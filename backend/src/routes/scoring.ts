@@ -0,0 +1,34 @@
+import { Router } from 'express';
+import { getSession, setSession } from '../utils/sessions.js';
+import { defaultScoringProfile, getScoringProfile, listScoringProfiles, rescoreSession } from '../services/scoring-profiles.js';
+
+const router = Router();
+
+// The value score profiles a session can be scored with
+router.get('/profiles', (_req, res) => {
+  res.json({ profiles: listScoringProfiles(), default: defaultScoringProfile().name });
+});
+
+// Switch a session to another profile. Body: { profile }. Value scores are recomputed from
+// the data already looked up, so this is instant and spends no API calls.
+router.put('/:sessionId', (req, res) => {
+  const session = getSession(req.params.sessionId);
+  if (!session) {
+    res.status(404).json({ error: 'Session not found' });
+    return;
+  }
+
+  const name = req.body?.profile;
+  const profile = typeof name === 'string' ? getScoringProfile(name) : undefined;
+  if (!profile) {
+    res.status(400).json({ error: `Unknown scoring profile "${name}"` });
+    return;
+  }
+
+  session.scoringProfile = profile.name;
+  rescoreSession(session);
+  setSession(session);
+  res.json(session);
+});
+
+export default router;
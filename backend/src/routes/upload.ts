@@ -1,70 +1,288 @@
 import { Router } from 'express';
 import { v4 as uuidv4 } from 'uuid';
 import fs from 'fs';
-import { upload } from '../utils/file-handler.js';
-import { parseWineList } from '../services/claude-parser.js';
+import { upload, toSourceFile } from '../utils/file-handler.js';
+import { config } from '../config.js';
+import { parseDocument } from '../services/document-parser.js';
+import { mergeParsedWines, winesNotIn } from '../services/wine-list-merger.js';
+import { fetchWineListDocument } from '../services/url-fetcher.js';
+import { emptyUsage } from '../services/api-usage.js';
+import { assignPriceTiers } from '../services/price-tiers.js';
+import { defaultScoringProfile, getScoringProfile, type ScoringProfile } from '../services/scoring-profiles.js';
 import { getSession, setSession } from '../utils/sessions.js';
-import type { WineValueResult, SessionData } from '../types/wine.js';
+import type { ParsedWine, ParseFailure, RejectedWine, WineValueResult, SessionData } from '../types/wine.js';
 
 const router = Router();
 
-router.post('/', upload.single('winelist'), async (req, res) => {
-  if (!req.file) {
-    res.status(400).json({ error: 'No file uploaded' });
-    return;
-  }
+type UploadedFile = Pick<Express.Multer.File, 'path' | 'originalname'>;
 
-  const sessionId = uuidv4();
+// The scoring profile a new session asked for (`profile` field), the default when none was
+// given, or undefined for an unknown name
+function requestedProfile(name: unknown): ScoringProfile | undefined {
+  return name === undefined || name === '' ? defaultScoringProfile() : getScoringProfile(String(name));
+}
+
+function createSession(profile: ScoringProfile): SessionData {
   const session: SessionData = {
-    id: sessionId,
+    id: uuidv4(),
     wines: [],
     currency: 'USD',
+    sourceFiles: [],
+    parseFailures: [],
+    parseReport: { extracted: 0, rejected: [] },
     status: 'parsing',
+    parseInProgress: true,
     createdAt: new Date(),
+    apiUsage: emptyUsage(),
+    scoringProfile: profile.name,
+    priceTiers: [],
   };
   setSession(session);
+  return session;
+}
 
-  // Return session ID immediately, parse in background
-  res.json({ sessionId });
+function toPendingResult(wine: ParsedWine): WineValueResult {
+  return {
+    ...wine,
+    retailPriceAvg: null,
+    retailPriceMin: null,
+    criticScore: null,
+    communityScore: null,
+    communityReviewCount: null,
+    lookupStatus: 'pending',
+    fieldSources: {},
+    matchCandidates: [],
+    match: null,
+    wineSearcherUrl: null,
+    cellarTrackerUrl: null,
+    markupPercent: null,
+    qualityEstimate: null,
+    qualityUncertainty: null,
+    valueScore: null,
+    scoreBreakdown: null,
+    priceTier: null,
+    tierRank: null,
+  };
+}
+
+// Parse every uploaded file in parallel, appending wines to the session as they are extracted
+// so the table fills in live and lookups can start before the whole list is read.
+// A file that fails to parse doesn't sink the others; only if all fail is the session marked as errored.
+// Files that produced wines are kept with the session (see sessions.ts cleanup) so wines can be traced to their source.
+async function parseFilesIntoSession(sessionId: string, files: UploadedFile[]): Promise<void> {
+  const startedEmpty = (getSession(sessionId)?.wines.length ?? 0) === 0;
+  const sources = files.map(toSourceFile);
+  const withWines = new Set<number>();
+
+  const appendWines = (i: number, wines: ParsedWine[], currency: string | null) => {
+    const session = getSession(sessionId);
+    if (!session || wines.length === 0) return;
+    // A new session shows prices in the first currency reported; finalised below
+    if (startedEmpty && currency && session.wines.length === 0) {
+      session.currency = currency;
+    }
+    if (!withWines.has(i)) {
+      withWines.add(i);
+      session.sourceFiles.push(sources[i]);
+    }
+    const source = { sourceFile: files[i].originalname, sourceFileId: sources[i].id };
+    session.wines = mergeParsedWines(session.wines, wines.map(wine => toPendingResult({ ...wine, ...source })));
+    setSession(session);
+  };
+
+  // The final result is authoritative: wines the stream missed (an entry cut at a block boundary,
+  // or one that only validated in the final output) are added once a file is done. Compared with
+  // what was streamed rather than the session, so a wine edited in the meantime isn't added again.
+  const parseFile = async (file: UploadedFile, i: number) => {
+    const streamed: ParsedWine[] = [];
+    const result = await parseDocument(file.path, (wine, currency) => {
+      streamed.push(wine);
+      appendWines(i, [wine], currency);
+    });
+    const missed = winesNotIn(streamed, result.wines);
+    if (missed.length > 0) {
+      console.log(`  ${file.originalname}: adding ${missed.length} wines missing from the streamed output`);
+      appendWines(i, missed, result.currency);
+    }
+    return result;
+  };
 
   try {
-    const parseResult = await parseWineList(req.file.path);
-
-    const wines: WineValueResult[] = parseResult.wines.map(w => ({
-      ...w,
-      retailPriceAvg: null,
-      retailPriceMin: null,
-      criticScore: null,
-      communityScore: null,
-      communityReviewCount: null,
-      lookupStatus: 'pending',
-      wineSearcherUrl: null,
-      cellarTrackerUrl: null,
-      markupPercent: null,
-      valueScore: null,
-    }));
+    const results = await Promise.allSettled(files.map(parseFile));
+
+    const currencies: string[] = [];
+    const failures: ParseFailure[] = [];
+    const rejected: RejectedWine[] = [];
+    let extracted = 0;
+
+    results.forEach((result, i) => {
+      const file = files[i];
+      if (result.status === 'fulfilled') {
+        currencies.push(result.value.currency);
+        const fileRejected = result.value.rejected ?? [];
+        extracted += result.value.wines.length + fileRejected.length;
+        rejected.push(...fileRejected.map(r => ({ ...r, sourceFile: file.originalname })));
+        failures.push(...(result.value.failures ?? []).map(f => ({ ...f, sourceFile: file.originalname })));
+      } else {
+        console.error(`Parsing error for "${file.originalname}":`, result.reason);
+        failures.push({ sourceFile: file.originalname, error: (result.reason as Error).message });
+      }
+    });
+
+    if (currencies.length === 0) {
+      throw new Error(failures.map(f => `${f.sourceFile}: ${f.error}`).join('; '));
+    }
 
     const updated = getSession(sessionId);
     if (updated) {
-      updated.wines = wines;
-      updated.currency = parseResult.currency;
-      updated.status = 'parsed';
+      // Keep the currency of an existing session; new sessions take the first parsed file's
+      if (startedEmpty) {
+        updated.currency = currencies[0];
+      }
+      updated.parseFailures.push(...failures);
+      updated.parseReport.extracted += extracted;
+      updated.parseReport.rejected.push(...rejected);
+      updated.parseInProgress = false;
+      assignPriceTiers(updated);
+      // A lookup started on the early wines carries on and sets the final status itself
+      if (updated.status === 'parsing') {
+        updated.status = 'parsed';
+      }
       setSession(updated);
     }
   } catch (err) {
     console.error('Parsing error:', err);
     const updated = getSession(sessionId);
     if (updated) {
-      updated.status = 'error';
+      updated.parseInProgress = false;
+      // An add-to-session failure (or one after some wines streamed in) leaves the existing wines usable
+      if (updated.status === 'parsing') {
+        updated.status = updated.wines.length > 0 ? 'parsed' : 'error';
+      }
       updated.error = (err as Error).message;
       setSession(updated);
     }
   } finally {
-    // Clean up uploaded file
-    try {
-      fs.unlinkSync(req.file.path);
-    } catch { /* ignore */ }
+    // Clean up uploaded files that no wine came from
+    files.forEach((file, i) => {
+      if (withWines.has(i)) return;
+      try {
+        fs.unlinkSync(file.path);
+      } catch { /* ignore */ }
+    });
+  }
+}
+
+router.post('/', upload.array('winelist', config.maxFilesPerUpload), async (req, res) => {
+  const files = req.files as Express.Multer.File[] | undefined;
+  if (!files || files.length === 0) {
+    res.status(400).json({ error: 'No file uploaded' });
+    return;
   }
+
+  const profile = requestedProfile(req.body?.profile);
+  if (!profile) {
+    files.forEach(f => fs.unlink(f.path, () => { /* ignore */ }));
+    res.status(400).json({ error: `Unknown scoring profile "${req.body.profile}"` });
+    return;
+  }
+
+  const session = createSession(profile);
+
+  // Return session ID immediately, parse in background
+  res.json({ sessionId: session.id });
+
+  await parseFilesIntoSession(session.id, files);
+});
+
+// Import a wine list published online (PDF, image, or web page).
+// Pass sessionId to add it to an existing session instead of starting a new one, or
+// profile to score a new session with that scoring profile.
+router.post('/url', async (req, res) => {
+  const { url, sessionId } = req.body ?? {};
+  if (typeof url !== 'string' || !url.trim()) {
+    res.status(400).json({ error: 'url is required' });
+    return;
+  }
+
+  const profile = requestedProfile(req.body.profile);
+  if (!profile) {
+    res.status(400).json({ error: `Unknown scoring profile "${req.body.profile}"` });
+    return;
+  }
+
+  const existing = sessionId ? getSession(sessionId) : undefined;
+  if (sessionId && !existing) {
+    res.status(404).json({ error: 'Session not found' });
+    return;
+  }
+  if (existing && (existing.status === 'parsing' || existing.status === 'looking_up')) {
+    res.status(409).json({ error: `Session is busy (${existing.status})` });
+    return;
+  }
+
+  // Fetch before responding so bad links, oversized or unsupported documents are reported directly
+  let document: UploadedFile;
+  try {
+    document = await fetchWineListDocument(url.trim());
+  } catch (err) {
+    console.error('URL import error:', (err as Error).message);
+    res.status(400).json({ error: (err as Error).message });
+    return;
+  }
+
+  let session: SessionData;
+  if (existing) {
+    if (existing.status === 'parsing' || existing.status === 'looking_up') {
+      // Another request got in while we were downloading
+      fs.unlink(document.path, () => { /* ignore */ });
+      res.status(409).json({ error: `Session is busy (${existing.status})` });
+      return;
+    }
+    existing.status = 'parsing';
+    existing.parseInProgress = true;
+    existing.error = undefined;
+    setSession(existing);
+    session = existing;
+  } else {
+    session = createSession(profile);
+  }
+
+  res.json({ sessionId: session.id });
+
+  await parseFilesIntoSession(session.id, [document]);
+});
+
+// Add more pages/files to an existing session
+router.post('/:sessionId', upload.array('winelist', config.maxFilesPerUpload), async (req, res) => {
+  const files = req.files as Express.Multer.File[] | undefined;
+  const session = getSession(req.params.sessionId);
+
+  if (!session) {
+    files?.forEach(f => fs.unlink(f.path, () => { /* ignore */ }));
+    res.status(404).json({ error: 'Session not found' });
+    return;
+  }
+
+  if (!files || files.length === 0) {
+    res.status(400).json({ error: 'No file uploaded' });
+    return;
+  }
+
+  if (session.status === 'parsing' || session.status === 'looking_up') {
+    files.forEach(f => fs.unlink(f.path, () => { /* ignore */ }));
+    res.status(409).json({ error: `Session is busy (${session.status})` });
+    return;
+  }
+
+  session.status = 'parsing';
+  session.parseInProgress = true;
+  session.error = undefined;
+  setSession(session);
+
+  res.json({ sessionId: session.id });
+
+  await parseFilesIntoSession(session.id, files);
 });
 
 export default router;
@@ -1,8 +1,51 @@
 import { Router } from 'express';
+import fs from 'fs';
 import { getSession, setSession } from '../utils/sessions.js';
+import { sourceFilePath } from '../utils/file-handler.js';
+import { renderSourceSnippet, type SnippetMode } from '../services/source-snippet.js';
+import { assignPriceTiers } from '../services/price-tiers.js';
+import { recommendWines } from '../services/recommendations.js';
+import { summarizeMarkups } from '../services/markup-summary.js';
+import { normalizeWineStyle } from '../utils/wine-style.js';
+import { validateWineEdit } from '../services/wine-schema.js';
+import type { RecommendationFilters } from '../types/wine.js';
 
 const router = Router();
 
+const DEFAULT_PICKS = 3;
+const MAX_PICKS = 20;
+
+// Recommendation filters from the query string, or a message saying which one is invalid
+function recommendationFilters(query: Record<string, unknown>): RecommendationFilters | string {
+  const text = (key: string) => (typeof query[key] === 'string' && query[key].trim() ? query[key].trim() : null);
+  const number = (key: string, min: number, max: number): number | null | string => {
+    const raw = text(key);
+    if (raw === null) return null;
+    const value = Number(raw);
+    return value >= min && value <= max ? value : `${key} must be a number from ${min} to ${max}`;
+  };
+
+  const maxPrice = number('maxPrice', 0, Infinity);
+  const minQuality = number('minQuality', 0, 100);
+  const limit = number('limit', 1, MAX_PICKS);
+  for (const value of [maxPrice, minQuality, limit]) {
+    if (typeof value === 'string') return value;
+  }
+
+  const styleText = text('style');
+  const style = normalizeWineStyle(styleText);
+  if (styleText !== null && style === null) return `Unknown wine style "${styleText}"`;
+
+  return {
+    maxPrice: maxPrice as number | null,
+    style,
+    region: text('region'),
+    grape: text('grape'),
+    minQuality: minQuality as number | null,
+    limit: Math.floor((limit as number | null) ?? DEFAULT_PICKS),
+  };
+}
+
 // Get session wines
 router.get('/:sessionId', (req, res) => {
   const session = getSession(req.params.sessionId);
@@ -13,6 +56,34 @@ router.get('/:sessionId', (req, res) => {
   res.json(session);
 });
 
+// The best-value picks for a budget and style, e.g. ?style=red&maxPrice=120 or ?region=burgundy&limit=3.
+// Also takes grape and minQuality.
+router.get('/:sessionId/recommendations', (req, res) => {
+  const session = getSession(req.params.sessionId);
+  if (!session) {
+    res.status(404).json({ error: 'Session not found' });
+    return;
+  }
+
+  const filters = recommendationFilters(req.query);
+  if (typeof filters === 'string') {
+    res.status(400).json({ error: filters });
+    return;
+  }
+
+  res.json(recommendWines(session, filters));
+});
+
+// How the restaurant marks its list up: overall, by price tier, region and style, with outliers
+router.get('/:sessionId/summary', (req, res) => {
+  const session = getSession(req.params.sessionId);
+  if (!session) {
+    res.status(404).json({ error: 'Session not found' });
+    return;
+  }
+  res.json(summarizeMarkups(session));
+});
+
 // Edit a wine entry
 router.put('/:sessionId/:index', (req, res) => {
   const session = getSession(req.params.sessionId);
@@ -27,13 +98,17 @@ router.put('/:sessionId/:index', (req, res) => {
     return;
   }
 
-  const { name, producer, vintage, restaurantPrice } = req.body;
-  const wine = session.wines[index];
+  // Coerced and range-checked like parsed wines, so a bad value can't reach scoring or the export
+  const edit = validateWineEdit(req.body);
+  if (typeof edit === 'string') {
+    res.status(400).json({ error: edit });
+    return;
+  }
 
-  if (name !== undefined) wine.name = name;
-  if (producer !== undefined) wine.producer = producer;
-  if (vintage !== undefined) wine.vintage = vintage;
-  if (restaurantPrice !== undefined) wine.restaurantPrice = restaurantPrice;
+  const wine = session.wines[index];
+  Object.assign(wine, edit);
+  // The user has checked this entry, so the parser's warnings no longer apply
+  wine.warnings = [];
 
   // Reset lookup data so it can be re-fetched
   wine.retailPriceAvg = null;
@@ -42,16 +117,60 @@ router.put('/:sessionId/:index', (req, res) => {
   wine.communityScore = null;
   wine.communityReviewCount = null;
   wine.lookupStatus = 'pending';
+  wine.fieldSources = {};
+  wine.matchCandidates = [];
+  wine.match = null;
   wine.wineSearcherUrl = null;
   wine.cellarTrackerUrl = null;
+  wine.qualityEstimate = null;
+  wine.qualityUncertainty = null;
   wine.markupPercent = null;
   wine.valueScore = null;
+  wine.scoreBreakdown = null;
+  wine.tierRank = null;
+  // A new price can move the tier boundaries and this wine's tier
+  assignPriceTiers(session);
 
   setSession(session);
   res.json(session);
 });
 
-// Export as CSV
+// Show where on the uploaded menu a wine was read from.
+// ?mode=crop (default) zooms to the entry; ?mode=highlight shows the whole page with the entry marked.
+router.get('/:sessionId/:index/source', async (req, res) => {
+  const session = getSession(req.params.sessionId);
+  if (!session) {
+    res.status(404).json({ error: 'Session not found' });
+    return;
+  }
+
+  const index = parseInt(req.params.index);
+  if (isNaN(index) || index < 0 || index >= session.wines.length) {
+    res.status(400).json({ error: 'Invalid wine index' });
+    return;
+  }
+
+  const wine = session.wines[index];
+  const file = session.sourceFiles.find(f => f.id === wine.sourceFileId);
+  if (!file || wine.sourcePage === null || !fs.existsSync(sourceFilePath(file))) {
+    res.status(404).json({ error: 'No source location recorded for this wine' });
+    return;
+  }
+
+  const mode: SnippetMode = req.query.mode === 'highlight' ? 'highlight' : 'crop';
+
+  try {
+    const snippet = await renderSourceSnippet(sourceFilePath(file), file.ext, wine.sourcePage, wine.sourceBox, mode);
+    res.setHeader('Content-Type', snippet.contentType);
+    res.setHeader('Content-Disposition', `inline; filename="wine-${index}-source${snippet.contentType === 'application/pdf' ? '.pdf' : '.svg'}"`);
+    res.send(snippet.body);
+  } catch (err) {
+    console.error('Source snippet error:', (err as Error).message);
+    res.status(422).json({ error: (err as Error).message });
+  }
+});
+
+// Export as CSV, or ?format=json for every field including each wine's score breakdown
 router.get('/:sessionId/export', (req, res) => {
   const session = getSession(req.params.sessionId);
   if (!session) {
@@ -59,11 +178,18 @@ router.get('/:sessionId/export', (req, res) => {
     return;
   }
 
+  if (req.query.format === 'json') {
+    const { id, currency, scoringProfile, priceTiers, wines } = session;
+    res.setHeader('Content-Disposition', 'attachment; filename=wine-values.json');
+    res.json({ sessionId: id, exportedAt: new Date().toISOString(), currency, scoringProfile, priceTiers, wines });
+    return;
+  }
+
   const headers = [
-    'Wine Name', 'Producer', 'Vintage', 'Region', 'Grape',
-    'Restaurant Price', 'Retail Avg Price', 'Markup %',
-    'Critic Score', 'Community Score', 'Value Score',
-    'Wine-Searcher URL', 'CellarTracker URL',
+    'Wine Name', 'Producer', 'Vintage', 'Region', 'Grape', 'Section', 'Style',
+    'Restaurant Price', 'Bottle Size (ml)', 'Glass Price', 'Pour (ml)', 'Retail Avg Price (750ml)', 'Markup %',
+    'Critic Score', 'Community Score', 'Quality Estimate', 'Quality Uncertainty (±)', 'Value Score', 'Value Rank in Price Tier', 'Matched As', 'Match Confidence',
+    'Wine-Searcher URL', 'CellarTracker URL', 'Source File', 'Parse Warnings',
   ];
 
   const rows = session.wines.map(w => [
@@ -72,14 +198,26 @@ router.get('/:sessionId/export', (req, res) => {
     w.vintage ?? 'NV',
     `"${w.region.replace(/"/g, '""')}"`,
     `"${w.grapeVariety.replace(/"/g, '""')}"`,
+    `"${(w.section ?? '').replace(/"/g, '""')}"`,
+    w.style ?? '',
     w.restaurantPrice,
+    w.bottleSizeMl,
+    w.glassPrice ?? '',
+    w.pourSizeMl ?? '',
     w.retailPriceAvg ?? '',
     w.markupPercent !== null ? w.markupPercent.toFixed(0) : '',
     w.criticScore ?? '',
     w.communityScore ?? '',
+    w.qualityEstimate ?? '',
+    w.qualityUncertainty ?? '',
     w.valueScore ?? '',
+    w.tierRank ? `${w.tierRank.rank} of ${w.tierRank.of}` : '',
+    `"${(w.match?.name ?? '').replace(/"/g, '""')}"`,
+    w.match ? `${Math.round(w.match.confidence * 100)}%${w.match.accepted ? '' : ' (refused)'}` : '',
     w.wineSearcherUrl ?? '',
     w.cellarTrackerUrl ?? '',
+    `"${(w.sourceFile ?? '').replace(/"/g, '""')}"`,
+    `"${w.warnings.join('; ').replace(/"/g, '""')}"`,
   ]);
 
   const csv = [headers.join(','), ...rows.map(r => r.join(','))].join('\n');
@@ -0,0 +1,172 @@
+import fs from 'fs';
+import path from 'path';
+import { config } from '../config.js';
+import type { ApiUsage } from '../types/wine.js';
+
+// ── Types ──────────────────────────────────────────────────────
+// Token counts as reported on an Anthropic response (Messages API `usage`)
+interface AnthropicUsage {
+  input_tokens: number;
+  output_tokens: number;
+  cache_creation_input_tokens?: number | null;
+  cache_read_input_tokens?: number | null;
+}
+
+export interface UsageStatus {
+  date: string; // the day the daily counters cover (server local time)
+  wineSearcher: {
+    callsToday: number;
+    dailyLimit: number | null; // null = no limit
+    sessionCalls: number | null; // null without a session
+    sessionLimit: number | null;
+    remaining: number | null; // calls left before a limit is hit; null = unlimited
+  };
+  anthropic: {
+    requestsToday: number;
+    inputTokensToday: number;
+    outputTokensToday: number;
+    dailyTokenLimit: number | null;
+    sessionTokens: number | null;
+    sessionTokenLimit: number | null;
+    tokensRemaining: number | null;
+  };
+}
+
+const SAVE_DELAY_MS = 1000;
+const KEEP_DAYS = 31;
+
+// ── Store ──────────────────────────────────────────────────────
+// Daily counters, kept in memory and written back to a JSON file shortly after each change so
+// restarts don't hand out a fresh day's budget. Per-session counters live on the session.
+let days: Map<string, ApiUsage> | null = null;
+let saveTimer: ReturnType<typeof setTimeout> | null = null;
+
+export function emptyUsage(): ApiUsage {
+  return { wineSearcherCalls: 0, anthropicRequests: 0, anthropicInputTokens: 0, anthropicOutputTokens: 0 };
+}
+
+// YYYY-MM-DD in server local time, so the day rolls over at local midnight
+function dayKey(date = new Date()): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+function store(): Map<string, ApiUsage> {
+  if (days) return days;
+  days = new Map();
+  try {
+    const saved = JSON.parse(fs.readFileSync(config.apiUsageFile, 'utf-8')) as { days?: Record<string, Partial<ApiUsage>> };
+    for (const [day, usage] of Object.entries(saved.days ?? {})) {
+      days.set(day, { ...emptyUsage(), ...usage });
+    }
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code !== 'ENOENT') {
+      console.error(`API usage: could not read ${config.apiUsageFile}, starting from zero:`, (err as Error).message);
+    }
+  }
+  return days;
+}
+
+function scheduleSave(): void {
+  if (saveTimer) return;
+  saveTimer = setTimeout(() => {
+    saveTimer = null;
+    try {
+      // Only the last month is worth keeping
+      const kept = [...store().keys()].sort().slice(-KEEP_DAYS);
+      fs.mkdirSync(path.dirname(config.apiUsageFile), { recursive: true });
+      const tmp = `${config.apiUsageFile}.tmp`;
+      fs.writeFileSync(tmp, JSON.stringify({ days: Object.fromEntries(kept.map(day => [day, store().get(day)])) }));
+      fs.renameSync(tmp, config.apiUsageFile);
+    } catch (err) {
+      console.error('API usage: save failed:', (err as Error).message);
+    }
+  }, SAVE_DELAY_MS);
+}
+
+function today(): ApiUsage {
+  const key = dayKey();
+  let usage = store().get(key);
+  if (!usage) {
+    usage = emptyUsage();
+    store().set(key, usage);
+  }
+  return usage;
+}
+
+// Left under a limit; null when the limit is 0 (off)
+function left(limit: number, used: number): number | null {
+  return limit > 0 ? Math.max(0, limit - used) : null;
+}
+
+function lowest(...values: (number | null)[]): number | null {
+  const set = values.filter((v): v is number => v !== null);
+  return set.length > 0 ? Math.min(...set) : null;
+}
+
+const tokensOf = (usage: ApiUsage) => usage.anthropicInputTokens + usage.anthropicOutputTokens;
+
+// ── Wine-Searcher calls ────────────────────────────────────────
+export function remainingWineSearcherCalls(session?: ApiUsage): number | null {
+  return lowest(
+    left(config.wineSearcherDailyLimit, today().wineSearcherCalls),
+    session ? left(config.wineSearcherSessionLimit, session.wineSearcherCalls) : null
+  );
+}
+
+/** Count one Wine-Searcher call against today's and the session's budget; false if either is spent. */
+export function reserveWineSearcherCall(session?: ApiUsage): boolean {
+  if (remainingWineSearcherCalls(session) === 0) return false;
+  today().wineSearcherCalls++;
+  if (session) session.wineSearcherCalls++;
+  scheduleSave();
+  return true;
+}
+
+// ── Anthropic tokens ───────────────────────────────────────────
+export function remainingAnthropicTokens(session?: ApiUsage): number | null {
+  return lowest(
+    left(config.anthropicDailyTokenLimit, tokensOf(today())),
+    session ? left(config.anthropicSessionTokenLimit, tokensOf(session)) : null
+  );
+}
+
+/** Whether a lookup may spend more tokens. Parsing is counted but never refused. */
+export function hasAnthropicBudget(session?: ApiUsage): boolean {
+  return remainingAnthropicTokens(session) !== 0;
+}
+
+export function recordAnthropicUsage(usage: AnthropicUsage, session?: ApiUsage): void {
+  const input = usage.input_tokens + (usage.cache_creation_input_tokens ?? 0) + (usage.cache_read_input_tokens ?? 0);
+  for (const counters of session ? [today(), session] : [today()]) {
+    counters.anthropicRequests++;
+    counters.anthropicInputTokens += input;
+    counters.anthropicOutputTokens += usage.output_tokens;
+  }
+  scheduleSave();
+}
+
+// ── Status ─────────────────────────────────────────────────────
+export function getUsageStatus(session?: ApiUsage): UsageStatus {
+  const day = today();
+  const limitOrNull = (limit: number) => (limit > 0 ? limit : null);
+  return {
+    date: dayKey(),
+    wineSearcher: {
+      callsToday: day.wineSearcherCalls,
+      dailyLimit: limitOrNull(config.wineSearcherDailyLimit),
+      sessionCalls: session?.wineSearcherCalls ?? null,
+      sessionLimit: limitOrNull(config.wineSearcherSessionLimit),
+      remaining: remainingWineSearcherCalls(session),
+    },
+    anthropic: {
+      requestsToday: day.anthropicRequests,
+      inputTokensToday: day.anthropicInputTokens,
+      outputTokensToday: day.anthropicOutputTokens,
+      dailyTokenLimit: limitOrNull(config.anthropicDailyTokenLimit),
+      sessionTokens: session ? tokensOf(session) : null,
+      sessionTokenLimit: limitOrNull(config.anthropicSessionTokenLimit),
+      tokensRemaining: remainingAnthropicTokens(session),
+    },
+  };
+}
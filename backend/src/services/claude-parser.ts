@@ -1,38 +1,38 @@
 import Anthropic from '@anthropic-ai/sdk';
-import fs from 'fs';
-import path from 'path';
 import type { ParsedWine } from '../types/wine.js';
+import type { ParseInput, ParseResult, WineHandler, WineListParser } from './wine-list-parser.js';
 import { config } from '../config.js';
+import { anthropicScheduler } from '../utils/request-scheduler.js';
+import { recordAnthropicUsage } from './api-usage.js';
 
 const client = new Anthropic({
   apiKey: config.anthropicApiKey,
   timeout: 5 * 60 * 1000, // 5 minutes for large PDFs
+  maxRetries: 0, // retries go through the request scheduler
 });
 
-type ImageMediaType = 'image/jpeg' | 'image/png' | 'image/gif' | 'image/webp';
-
-const MIME_MAP: Record<string, ImageMediaType> = {
-  '.jpg': 'image/jpeg',
-  '.jpeg': 'image/jpeg',
-  '.png': 'image/png',
-  '.webp': 'image/webp',
-};
-
 const PARSE_PROMPT = `You are a wine expert analyzing a restaurant wine list.
 
 First, determine the currency used on this menu (USD $, GBP £, EUR €, etc.).
 
-Then extract every wine from this menu image/PDF. For each wine, extract:
+Then extract every wine from this menu. For each wine, extract:
 - name: the full wine name as it would be searched on wine-searcher.com (e.g., "Chateau Margaux Premier Grand Cru Classe"). Include the producer name as part of the search-friendly name.
 - producer: the winery or producer name
 - vintage: the year as a number, or null if non-vintage (NV)
 - region: the wine region if listed or inferable
 - grapeVariety: the grape variety if listed or inferable
-- restaurantPrice: the price as a number (no currency symbol). If by-the-glass and by-the-bottle are both listed, use the bottle price.
+- section: the menu section header this wine is listed under, exactly as printed including sub-headings (e.g., "Red – Bordeaux", "Champagne", "Coravin"), or null if there is none
+- style: one of "red", "white", "rose", "sparkling", "sweet", "fortified" — from the section or your knowledge of the wine
+- restaurantPrice: the price as a number (no currency symbol) for the format in bottleSizeMl. If by-the-glass and by-the-bottle are both listed, use the bottle price.
+- bottleSizeMl: the volume in ml that restaurantPrice buys: 750 for a standard bottle, 375 for a half bottle, 500 for a 50cl bottle or carafe, 1500 for a magnum, etc. Check section headers like "Half Bottles" or "Large Formats". If the wine is only sold by the glass, use the pour size.
+- glassPrice: the by-the-glass price as a number, or null if not sold by the glass
+- pourSizeMl: the glass pour size in ml if stated (e.g. 125, 175, "5oz" = 150), or null
 - rawText: the exact text as printed on the menu for this wine
+- sourcePage: the 1-based page number of this document the wine appears on (1 for a single image), or null for plain text input
+- sourceBox: the approximate bounding box of this wine's entry on that page, as fractions of the page size with the origin at the top-left: {"x": left, "y": top, "width": w, "height": h}, each between 0 and 1. null if you can't locate it or for plain text input
 - confidence: your confidence in the extraction accuracy (0.0 to 1.0)
 
-Be thorough -- extract ALL wines on the list. If a section header indicates a category (e.g., "Red Wines - Bordeaux"), use that context to fill in region/grape fields.
+Be thorough -- extract ALL wines on the list, in the order they appear. If a section header indicates a category (e.g., "Red Wines - Bordeaux"), use that context to fill in region/grape/style fields.
 
 Return ONLY a JSON object with:
 - "currency": the currency code (e.g., "GBP", "USD", "EUR")
@@ -40,97 +40,143 @@ Return ONLY a JSON object with:
 
 No other text.`;
 
-interface ParseResult {
-  currency: string;
-  wines: ParsedWine[];
-}
-
-// Try to salvage truncated JSON by extracting complete wine objects
-function salvageTruncatedJson(text: string): ParseResult | null {
-  // Find the wines array start
-  const winesIdx = text.indexOf('"wines"');
-  if (winesIdx === -1) return null;
-
-  const arrayStart = text.indexOf('[', winesIdx);
-  if (arrayStart === -1) return null;
-
-  // Extract currency
-  const currencyMatch = text.match(/"currency"\s*:\s*"(\w+)"/);
-  const currency = currencyMatch ? currencyMatch[1] : 'USD';
-
-  // Find all complete wine objects by matching balanced braces
-  const wines: ParsedWine[] = [];
+/**
+ * Incrementally scan response text for complete objects in the "wines" array.
+ * Tracks string literals so braces inside rawText etc. don't throw off the depth count.
+ */
+function createWineScanner(onWine: (wine: ParsedWine) => void) {
+  let text = '';
+  let pos = -1; // next index to scan; -1 until the wines array has been found
   let depth = 0;
   let objStart = -1;
+  let inString = false;
+  let escaped = false;
+  let done = false;
+  let currency: string | null = null;
+
+  function scan() {
+    if (pos === -1) {
+      const winesIdx = text.indexOf('"wines"');
+      const arrayStart = winesIdx === -1 ? -1 : text.indexOf('[', winesIdx);
+      if (arrayStart === -1) return;
+      pos = arrayStart + 1;
+    }
 
-  for (let i = arrayStart + 1; i < text.length; i++) {
-    if (text[i] === '{' && depth === 0) {
-      objStart = i;
-      depth = 1;
-    } else if (text[i] === '{') {
-      depth++;
-    } else if (text[i] === '}') {
-      depth--;
-      if (depth === 0 && objStart !== -1) {
-        const objStr = text.substring(objStart, i + 1);
-        try {
-          wines.push(JSON.parse(objStr));
-        } catch { /* skip malformed object */ }
-        objStart = -1;
+    for (; pos < text.length && !done; pos++) {
+      const ch = text[pos];
+      if (inString) {
+        if (escaped) escaped = false;
+        else if (ch === '\\') escaped = true;
+        else if (ch === '"') inString = false;
+      } else if (ch === '"') {
+        inString = true;
+      } else if (ch === '{') {
+        if (depth === 0) objStart = pos;
+        depth++;
+      } else if (ch === '}') {
+        depth--;
+        if (depth === 0 && objStart !== -1) {
+          let wine: ParsedWine | null = null;
+          try {
+            wine = JSON.parse(text.substring(objStart, pos + 1));
+          } catch { /* skip malformed object */ }
+          objStart = -1;
+          if (wine) onWine(wine);
+        }
+      } else if (ch === ']' && depth === 0) {
+        done = true;
       }
     }
   }
 
+  return {
+    push(chunk: string) {
+      text += chunk;
+      if (!done) scan();
+    },
+    // The currency is requested before the wines, so it is usually known by the first wine
+    get currency(): string | null {
+      currency ??= text.match(/"currency"\s*:\s*"(\w+)"/)?.[1] ?? null;
+      return currency;
+    },
+  };
+}
+
+// Try to salvage truncated JSON by extracting complete wine objects
+function salvageTruncatedJson(text: string): ParseResult | null {
+  const wines: ParsedWine[] = [];
+  const scanner = createWineScanner(wine => wines.push(wine));
+  scanner.push(text);
+
   if (wines.length > 0) {
     console.log(`  Salvaged ${wines.length} wines from truncated response`);
-    return { currency, wines };
+    return { currency: scanner.currency ?? 'USD', wines };
   }
   return null;
 }
 
-export async function parseWineList(filePath: string): Promise<ParseResult> {
-  const ext = path.extname(filePath).toLowerCase();
-  const fileBuffer = fs.readFileSync(filePath);
-  const base64 = fileBuffer.toString('base64');
-
-  let contentBlocks: Anthropic.Messages.ContentBlockParam[];
-
-  if (ext === '.pdf') {
-    contentBlocks = [
-      {
-        type: 'document' as const,
-        source: {
-          type: 'base64' as const,
-          media_type: 'application/pdf',
-          data: base64,
+function contentBlocksFor(input: ParseInput): Anthropic.Messages.ContentBlockParam[] {
+  const prompt = { type: 'text' as const, text: PARSE_PROMPT };
+
+  switch (input.kind) {
+    case 'text':
+      return [
+        { type: 'text' as const, text: `Wine list text (extracted from a ${input.format} file):\n\n${input.text}` },
+        prompt,
+      ];
+    case 'pdf':
+      return [
+        {
+          type: 'document' as const,
+          source: {
+            type: 'base64' as const,
+            media_type: 'application/pdf',
+            data: input.data.toString('base64'),
+          },
         },
-      },
-      { type: 'text' as const, text: PARSE_PROMPT },
-    ];
-  } else {
-    const mediaType = MIME_MAP[ext];
-    if (!mediaType) {
-      throw new Error(`Unsupported file type: ${ext}`);
-    }
-    contentBlocks = [
-      {
-        type: 'image' as const,
-        source: {
-          type: 'base64' as const,
-          media_type: mediaType,
-          data: base64,
+        prompt,
+      ];
+    case 'image':
+      return [
+        {
+          type: 'image' as const,
+          source: {
+            type: 'base64' as const,
+            media_type: input.mediaType,
+            data: input.data.toString('base64'),
+          },
         },
-      },
-      { type: 'text' as const, text: PARSE_PROMPT },
-    ];
+        prompt,
+      ];
   }
+}
+
+async function requestParse(
+  contentBlocks: Anthropic.Messages.ContentBlockParam[],
+  onWine?: WineHandler
+): Promise<ParseResult> {
+  // Once wines have been handed on, a retry would hand them on again — only retry before that
+  let streamed = false;
+  const response = await anthropicScheduler.run(() => {
+    const stream = client.messages.stream({
+      model: config.parserModel,
+      max_tokens: 32768,
+      messages: [{ role: 'user', content: contentBlocks }],
+    });
+
+    // Hand wines on as soon as each object in the array is complete
+    if (onWine) {
+      const scanner = createWineScanner(wine => onWine(wine, scanner.currency));
+      stream.on('text', delta => {
+        streamed = true;
+        scanner.push(delta);
+      });
+    }
 
-  const response = await client.messages.create({
-    model: 'claude-sonnet-4-20250514',
-    max_tokens: 32768,
-    messages: [{ role: 'user', content: contentBlocks }],
-  });
+    return stream.finalMessage();
+  }, { shouldRetry: () => !streamed });
 
+  recordAnthropicUsage(response.usage);
   console.log(`Parse response: stop_reason=${response.stop_reason}, content blocks=${response.content.length}`);
 
   // Collect all text from all text blocks
@@ -158,9 +204,11 @@ export async function parseWineList(filePath: string): Promise<ParseResult> {
     if (firstBrace !== -1 && lastBrace > firstBrace) {
       try {
         const parsed = JSON.parse(jsonStr.substring(firstBrace, lastBrace + 1));
+        if (!Array.isArray(parsed.wines)) continue;
+        // Entries are checked against the schema in parseDocument
         return {
-          currency: parsed.currency || 'USD',
-          wines: parsed.wines as ParsedWine[],
+          currency: typeof parsed.currency === 'string' ? parsed.currency : 'USD',
+          wines: parsed.wines,
         };
       } catch { /* try next block or salvage */ }
     }
@@ -170,7 +218,7 @@ export async function parseWineList(filePath: string): Promise<ParseResult> {
   if (response.stop_reason === 'max_tokens') {
     console.log('Response was truncated (max_tokens). Attempting to salvage partial wines...');
     const salvaged = salvageTruncatedJson(allText);
-    if (salvaged) return salvaged;
+    if (salvaged) return { ...salvaged, truncated: true };
   }
 
   // Last resort: try to salvage from any text
@@ -180,3 +228,8 @@ export async function parseWineList(filePath: string): Promise<ParseResult> {
   console.error('Failed to find JSON in parser response. Full text:', allText.substring(0, 1000));
   throw new Error(`Could not parse wine list. Claude responded: "${allText.substring(0, 100)}..."`);
 }
+
+export const claudeParser: WineListParser = {
+  name: `claude (${config.parserModel})`,
+  parse: (input, onWine) => requestParse(contentBlocksFor(input), onWine),
+};
@@ -1,10 +1,15 @@
 import Anthropic from '@anthropic-ai/sdk';
 import { config } from '../config.js';
+import { anthropicScheduler } from '../utils/request-scheduler.js';
 import { buildSearchName } from '../utils/wine-name-utils.js';
+import type { ApiUsage } from '../types/wine.js';
+import type { LookupProvider } from './lookup-providers.js';
+import { hasAnthropicBudget, recordAnthropicUsage } from './api-usage.js';
 
 const client = new Anthropic({
   apiKey: config.anthropicApiKey,
   timeout: 2 * 60 * 1000, // 2 min timeout (shorter — this is a focused lookup)
+  maxRetries: 0, // retries go through the request scheduler
 });
 
 export interface CommunityScoreResult {
@@ -20,12 +25,18 @@ const NULL_RESULT: CommunityScoreResult = {
 /**
  * Look up CellarTracker community score via Claude web search.
  * Uses a tight, focused prompt — only searches CellarTracker, only returns community data.
+ * Rejects if the request fails (after the scheduler's retries), so the miss isn't cached as "not found".
  */
 export async function lookupCommunityScore(
   wineName: string,
   producer: string,
-  vintage: number | null
+  vintage: number | null,
+  signal?: AbortSignal,
+  usage?: ApiUsage // the session's counters, when the lookup is for a session
 ): Promise<CommunityScoreResult> {
+  // Offline mode (fixture parser, no key) — skip rather than fail every request
+  if (!config.anthropicApiKey) return NULL_RESULT;
+
   const vintageStr = vintage ?? 'NV';
   const searchName = buildSearchName(wineName, producer);
 
@@ -48,61 +59,71 @@ CRITICAL RULES:
 Return ONLY a JSON object, no explanation:
 {"communityScore": <number 0-100 or null>, "communityReviewCount": <number or null>}`;
 
-  try {
-    const requestBody: any = {
-      model: 'claude-sonnet-4-20250514',
-      max_tokens: 512,
-      messages: [{ role: 'user', content: prompt }],
-      tools: [
-        {
-          type: 'web_search_20250305',
-          name: 'web_search',
-          max_uses: 2,
-        },
-      ],
-    };
-
-    let response = await client.messages.create(requestBody);
-
-    // Handle pause_turn
-    let attempts = 0;
-    while ((response.stop_reason as string) === 'pause_turn' && attempts < 3) {
-      attempts++;
-      requestBody.messages = [
-        { role: 'user', content: prompt },
-        { role: 'assistant', content: response.content },
-        { role: 'user', content: 'Please provide the JSON result now.' },
-      ];
-      response = await client.messages.create(requestBody);
-    }
+  const requestBody: any = {
+    model: 'claude-sonnet-4-20250514',
+    max_tokens: 512,
+    messages: [{ role: 'user', content: prompt }],
+    tools: [
+      {
+        type: 'web_search_20250305',
+        name: 'web_search',
+        max_uses: 2,
+      },
+    ],
+  };
+
+  let response = await anthropicScheduler.run(() => client.messages.create(requestBody, { signal }), { signal });
+  recordAnthropicUsage(response.usage, usage);
+
+  // Handle pause_turn
+  let attempts = 0;
+  while ((response.stop_reason as string) === 'pause_turn' && attempts < 3) {
+    attempts++;
+    requestBody.messages = [
+      { role: 'user', content: prompt },
+      { role: 'assistant', content: response.content },
+      { role: 'user', content: 'Please provide the JSON result now.' },
+    ];
+    response = await anthropicScheduler.run(() => client.messages.create(requestBody, { signal }), { signal });
+    recordAnthropicUsage(response.usage, usage);
+  }
+
+  // Extract JSON from response
+  const textBlocks = response.content.filter((b: any) => b.type === 'text');
+
+  for (const block of [...textBlocks].reverse()) {
+    if (block.type !== 'text') continue;
+    let str = block.text.trim();
 
-    // Extract JSON from response
-    const textBlocks = response.content.filter((b: any) => b.type === 'text');
-
-    for (const block of [...textBlocks].reverse()) {
-      if (block.type !== 'text') continue;
-      let str = block.text.trim();
-
-      if (str.startsWith('```')) {
-        str = str.replace(/^```(?:json)?\s*\n?/, '').replace(/\n?```\s*$/, '');
-      }
-
-      const firstBrace = str.indexOf('{');
-      const lastBrace = str.lastIndexOf('}');
-      if (firstBrace !== -1 && lastBrace > firstBrace) {
-        try {
-          const parsed = JSON.parse(str.substring(firstBrace, lastBrace + 1));
-          return {
-            communityScore: typeof parsed.communityScore === 'number' ? parsed.communityScore : null,
-            communityReviewCount: typeof parsed.communityReviewCount === 'number' ? parsed.communityReviewCount : null,
-          };
-        } catch { /* try next block */ }
-      }
+    if (str.startsWith('```')) {
+      str = str.replace(/^```(?:json)?\s*\n?/, '').replace(/\n?```\s*$/, '');
     }
 
-    return NULL_RESULT;
-  } catch (err) {
-    console.log(`  [Community] Error for "${wineName}": ${(err as Error).message}`);
-    return NULL_RESULT;
+    const firstBrace = str.indexOf('{');
+    const lastBrace = str.lastIndexOf('}');
+    if (firstBrace !== -1 && lastBrace > firstBrace) {
+      try {
+        const parsed = JSON.parse(str.substring(firstBrace, lastBrace + 1));
+        return {
+          communityScore: typeof parsed.communityScore === 'number' ? parsed.communityScore : null,
+          communityReviewCount: typeof parsed.communityReviewCount === 'number' ? parsed.communityReviewCount : null,
+        };
+      } catch { /* try next block */ }
+    }
   }
+
+  return NULL_RESULT;
 }
+
+export const cellarTrackerProvider: LookupProvider = {
+  name: 'cellartracker',
+  fields: ['communityScore'],
+  isAvailable: () => Boolean(config.anthropicApiKey),
+  async lookup(wine, _currency, signal) {
+    if (!hasAnthropicBudget(wine.usage)) {
+      console.log(`  [Community] Token budget used up, skipping "${wine.name}"`);
+      return {};
+    }
+    return lookupCommunityScore(wine.name, wine.producer, wine.vintage, signal, wine.usage);
+  },
+};
@@ -0,0 +1,183 @@
+import type { ParsedWine, RejectedWine } from '../types/wine.js';
+import type { ParseResult } from './wine-list-parser.js';
+import { inferWineStyle } from '../utils/wine-style.js';
+import { DEFAULT_POUR_ML, STANDARD_BOTTLE_ML, parseVolumeMl } from '../utils/bottle-format.js';
+import { currencyFromText } from './currency.js';
+import { parseAmount } from './wine-schema.js';
+
+// Header aliases → ParsedWine field. Matched case-insensitively after stripping punctuation.
+const COLUMN_ALIASES: Record<string, keyof ParsedWine> = {
+  name: 'name',
+  wine: 'name',
+  winename: 'name',
+  description: 'name',
+  producer: 'producer',
+  winery: 'producer',
+  domaine: 'producer',
+  vintage: 'vintage',
+  year: 'vintage',
+  region: 'region',
+  appellation: 'region',
+  grape: 'grapeVariety',
+  grapes: 'grapeVariety',
+  variety: 'grapeVariety',
+  varietal: 'grapeVariety',
+  grapevariety: 'grapeVariety',
+  price: 'restaurantPrice',
+  bottleprice: 'restaurantPrice',
+  bottle: 'restaurantPrice',
+  menuprice: 'restaurantPrice',
+  restaurantprice: 'restaurantPrice',
+  size: 'bottleSizeMl',
+  format: 'bottleSizeMl',
+  bottlesize: 'bottleSizeMl',
+  volume: 'bottleSizeMl',
+  glass: 'glassPrice',
+  glassprice: 'glassPrice',
+  byglass: 'glassPrice',
+  btg: 'glassPrice',
+  section: 'section',
+  category: 'section',
+  heading: 'section',
+  style: 'style',
+  type: 'style',
+  colour: 'style',
+  color: 'style',
+  pour: 'pourSizeMl',
+  poursize: 'pourSizeMl',
+};
+
+/**
+ * Split CSV text into rows of cells. Handles quoted cells with embedded commas,
+ * newlines and doubled quotes; also accepts semicolon- or tab-delimited exports.
+ */
+export function parseCsv(text: string): string[][] {
+  const firstLine = text.split(/\r?\n/, 1)[0];
+  const delimiter = [',', ';', '\t'].reduce((best, d) =>
+    firstLine.split(d).length > firstLine.split(best).length ? d : best, ',');
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (inQuotes) {
+      if (ch === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (ch === '"') {
+        inQuotes = false;
+      } else {
+        cell += ch;
+      }
+    } else if (ch === '"') {
+      inQuotes = true;
+    } else if (ch === delimiter) {
+      row.push(cell.trim());
+      cell = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell.trim());
+      if (row.some(c => c !== '')) rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += ch;
+    }
+  }
+  row.push(cell.trim());
+  if (row.some(c => c !== '')) rows.push(row);
+
+  return rows;
+}
+
+function parseVintage(raw: string): number | null {
+  const match = raw.match(/\b(19|20)\d{2}\b/);
+  return match ? parseInt(match[0], 10) : null;
+}
+
+function detectCurrency(priceCells: string[]): string {
+  for (const cell of priceCells) {
+    const code = currencyFromText(cell);
+    if (code) return code;
+  }
+  return 'USD';
+}
+
+/**
+ * Map a CSV wine list straight to ParsedWine without an LLM call.
+ * Returns null when the header row doesn't have at least a name and a price column,
+ * in which case the caller should send the file through the text parser instead.
+ */
+export function importCsvWineList(text: string): ParseResult | null {
+  const rows = parseCsv(text);
+  if (rows.length < 2) return null;
+
+  const [header, ...dataRows] = rows;
+  const columns = new Map<keyof ParsedWine, number>();
+  header.forEach((h, i) => {
+    const field = COLUMN_ALIASES[h.toLowerCase().replace(/[^a-z]/g, '')];
+    if (field && !columns.has(field)) columns.set(field, i);
+  });
+
+  const priceCol = columns.get('restaurantPrice') ?? columns.get('glassPrice');
+  if (!columns.has('name') || priceCol === undefined) return null;
+
+  const cell = (row: string[], field: keyof ParsedWine): string => {
+    const idx = columns.get(field);
+    return idx === undefined ? '' : (row[idx] ?? '');
+  };
+
+  const wines: ParsedWine[] = [];
+  const rejected: RejectedWine[] = [];
+  for (const row of dataRows) {
+    if (row.every(c => !c.trim())) continue;
+    const name = cell(row, 'name');
+    const warnings: string[] = [];
+    const bottlePrice = parseAmount(cell(row, 'restaurantPrice'), 'Price', warnings);
+    const glassPrice = parseAmount(cell(row, 'glassPrice'), 'Glass price', warnings);
+    const pourSizeMl = parseVolumeMl(cell(row, 'pourSizeMl'));
+    // Reported alongside the parser's rejects, with the same reasons
+    if (!name || (bottlePrice === null && glassPrice === null)) {
+      rejected.push({ rawText: row.join(', '), reason: name ? 'No price' : 'No wine name' });
+      continue;
+    }
+
+    // Glass-only rows are priced per pour
+    const bottleSizeMl = bottlePrice !== null
+      ? parseVolumeMl(cell(row, 'bottleSizeMl')) ?? STANDARD_BOTTLE_ML
+      : pourSizeMl ?? DEFAULT_POUR_ML;
+
+    const producer = cell(row, 'producer');
+    const section = cell(row, 'section');
+    wines.push({
+      name: producer && !name.toLowerCase().includes(producer.toLowerCase()) ? `${producer} ${name}` : name,
+      producer,
+      vintage: parseVintage(cell(row, 'vintage')),
+      region: cell(row, 'region'),
+      grapeVariety: cell(row, 'grapeVariety'),
+      section: section || null,
+      style: inferWineStyle(cell(row, 'style'), section),
+      restaurantPrice: bottlePrice ?? glassPrice!,
+      bottleSizeMl,
+      glassPrice,
+      pourSizeMl,
+      rawText: row.join(', '),
+      confidence: 1,
+      warnings,
+      sourcePage: null,
+      sourceBox: null,
+    });
+  }
+
+  if (wines.length === 0) return null;
+
+  console.log(`  CSV import: mapped ${wines.length} wines from columns (no LLM call)`);
+  return {
+    currency: detectCurrency(dataRows.map(r => r[priceCol] ?? '')),
+    wines,
+    rejected,
+  };
+}
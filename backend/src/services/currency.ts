@@ -0,0 +1,153 @@
+import fs from 'fs';
+import path from 'path';
+import { config } from '../config.js';
+
+// ── Types ──────────────────────────────────────────────────────
+export interface RateTable {
+  date: string | null; // when the loaded rates were published, if the source says
+  source: string; // "built-in", the rates file or the feed URL
+  rates: Record<string, number>; // units of each currency per 1 USD
+}
+
+// ── Currency codes ─────────────────────────────────────────────
+const ISO_CODES = new Set(Intl.supportedValuesOf('currency'));
+
+export function isCurrencyCode(code: string): boolean {
+  return ISO_CODES.has(code);
+}
+
+// Symbols seen on menus and price lists. Prefixed dollars come before the bare "$".
+const SYMBOLS: [RegExp, string][] = [
+  [/£/, 'GBP'],
+  [/€/, 'EUR'],
+  [/US\$/, 'USD'],
+  [/(?<![A-Z])AU?\$/, 'AUD'],
+  [/(?<![A-Z])CA?\$/, 'CAD'],
+  [/NZ\$/, 'NZD'],
+  [/HK\$/, 'HKD'],
+  [/(?<![A-Z])SG?\$/, 'SGD'],
+  [/(?<![A-Z])R\$/, 'BRL'],
+  [/CHF/i, 'CHF'],
+  [/¥/, 'JPY'],
+  [/₹/, 'INR'],
+  [/\$/, 'USD'],
+];
+
+/** The currency a piece of text is priced in, from a currency symbol or an ISO code in it. */
+export function currencyFromText(text: string): string | null {
+  for (const [pattern, code] of SYMBOLS) {
+    if (pattern.test(text)) return code;
+  }
+  const iso = text.toUpperCase().match(/\b[A-Z]{3}\b/g)?.find(isCurrencyCode);
+  return iso ?? null;
+}
+
+/** An ISO code for whatever a parser or provider reported ("gbp", "£", "EUR"), or null. */
+export function normalizeCurrency(raw: string | null | undefined): string | null {
+  if (!raw) return null;
+  const code = raw.trim().toUpperCase();
+  return isCurrencyCode(code) ? code : currencyFromText(raw);
+}
+
+export function currencyName(code: string): string {
+  try {
+    return new Intl.DisplayNames(['en'], { type: 'currency' }).of(code) ?? code;
+  } catch {
+    return code;
+  }
+}
+
+// "£95", "€42.50", "CHF 120"
+export function formatPrice(amount: number, code: string): string {
+  try {
+    return new Intl.NumberFormat('en', { style: 'currency', currency: code, minimumFractionDigits: 0, maximumFractionDigits: 2 }).format(amount);
+  } catch {
+    return `${code} ${amount}`;
+  }
+}
+
+// ── Rates ──────────────────────────────────────────────────────
+// Approximate mid-market rates, used until a rates file or feed has been loaded.
+const BUILT_IN_RATES: Record<string, number> = {
+  USD: 1, EUR: 0.92, GBP: 0.79, CHF: 0.88, AUD: 1.52, CAD: 1.37, NZD: 1.68, JPY: 150,
+  HKD: 7.8, SGD: 1.34, CNY: 7.2, INR: 83.5, KRW: 1350, THB: 35, AED: 3.67, ILS: 3.7,
+  SEK: 10.6, NOK: 10.8, DKK: 6.9, PLN: 4.0, CZK: 23, HUF: 360, ZAR: 18.2, MXN: 18, BRL: 5.4,
+};
+
+let table: RateTable | null = null;
+
+/**
+ * Accepts `{ base?, date?, rates: { CODE: units per base } }` (the usual exchange-rate feed
+ * shape, any base) and rebases it to USD. Currencies it leaves out keep their built-in rate.
+ */
+function toRateTable(raw: unknown, source: string): RateTable {
+  const { base = 'USD', date, rates } = (raw ?? {}) as { base?: string; date?: string; rates?: Record<string, unknown> };
+  if (!rates || typeof rates !== 'object') throw new Error('expected { base, rates: { CODE: rate } }');
+
+  const perBase: Record<string, number> = { [base]: 1 };
+  for (const [code, rate] of Object.entries(rates)) {
+    if (isCurrencyCode(code) && typeof rate === 'number' && rate > 0) perBase[code] = rate;
+  }
+  const usd = perBase.USD;
+  if (!usd) throw new Error('rates must include USD');
+
+  const perUsd: Record<string, number> = { ...BUILT_IN_RATES };
+  for (const [code, rate] of Object.entries(perBase)) perUsd[code] = rate / usd;
+  return { date: typeof date === 'string' ? date : null, source, rates: perUsd };
+}
+
+function readRatesFile(): RateTable | null {
+  try {
+    return toRateTable(JSON.parse(fs.readFileSync(config.currencyRatesFile, 'utf-8')), config.currencyRatesFile);
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT') return null;
+    console.error(`Currency rates: could not read ${config.currencyRatesFile}:`, (err as Error).message);
+    return null;
+  }
+}
+
+export function getRateTable(): RateTable {
+  table ??= readRatesFile() ?? { date: null, source: 'built-in', rates: { ...BUILT_IN_RATES } };
+  return table;
+}
+
+/** `amount` converted between two ISO currencies, or null when either has no known rate. */
+export function convertPrice(amount: number, from: string, to: string): number | null {
+  if (from === to) return amount;
+  const { rates } = getRateTable();
+  if (!rates[from] || !rates[to]) return null;
+  return (amount / rates[from]) * rates[to];
+}
+
+/**
+ * Reload rates: from CURRENCY_RATES_URL when configured (saving a copy to the rates file so a
+ * restart without the feed still has them), otherwise from the rates file. Rejects, keeping
+ * the current rates, if the source can't be read.
+ */
+export async function refreshRates(): Promise<RateTable> {
+  if (config.currencyRatesUrl) {
+    const response = await fetch(config.currencyRatesUrl, { signal: AbortSignal.timeout(10_000) });
+    if (!response.ok) throw new Error(`Rates feed returned HTTP ${response.status}`);
+    const raw: unknown = await response.json();
+    const next = toRateTable(raw, config.currencyRatesUrl);
+    fs.mkdirSync(path.dirname(config.currencyRatesFile), { recursive: true });
+    fs.writeFileSync(config.currencyRatesFile, JSON.stringify(raw));
+    table = next;
+  } else {
+    const next = readRatesFile();
+    if (!next) throw new Error(`No rates file at ${config.currencyRatesFile}`);
+    table = next;
+  }
+  console.log(`Currency rates: loaded ${Object.keys(table.rates).length} rates from ${table.source}${table.date ? ` (${table.date})` : ''}`);
+  return table;
+}
+
+/** Refresh rates now and then every CURRENCY_RATES_REFRESH_HOURS, if there's anything to refresh from. */
+export function startRateRefresh(): void {
+  if (!config.currencyRatesUrl && !fs.existsSync(config.currencyRatesFile)) return;
+  const refresh = () => refreshRates().catch(err => console.error('Currency rates refresh failed:', (err as Error).message));
+  refresh();
+  if (config.currencyRatesRefreshHours > 0) {
+    setInterval(refresh, config.currencyRatesRefreshHours * 60 * 60 * 1000).unref();
+  }
+}
@@ -0,0 +1,184 @@
+import fs from 'fs';
+import path from 'path';
+import { config } from '../config.js';
+import {
+  getWineListParser,
+  readParseInput,
+  type ParseInput,
+  type ParseResult,
+  type WineHandler,
+} from './wine-list-parser.js';
+import { importCsvWineList } from './csv-import.js';
+import { splitPdf, formatPageRange, type PdfChunk } from './pdf-chunker.js';
+import { mergeParsedWines } from './wine-list-merger.js';
+import { validateParsedWine } from './wine-schema.js';
+import { normalizeCurrency } from './currency.js';
+import { extractText } from '../utils/text-extractor.js';
+import type { ParsedWine, ParseFailure } from '../types/wine.js';
+
+const TRUNCATED_MESSAGE = 'Response was truncated — wines after the cut-off may be missing';
+
+// Run `fn` over items with at most `limit` in flight, preserving input order in the results
+async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T) => Promise<R>
+): Promise<PromiseSettledResult<R>[]> {
+  const results: PromiseSettledResult<R>[] = new Array(items.length);
+  let next = 0;
+
+  async function worker() {
+    while (next < items.length) {
+      const idx = next++;
+      try {
+        results[idx] = { status: 'fulfilled', value: await fn(items[idx]) };
+      } catch (reason) {
+        results[idx] = { status: 'rejected', reason };
+      }
+    }
+  }
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
+
+// Pick the currency most chunks agree on; ties go to the earliest chunk
+function majorityCurrency(currencies: string[]): string {
+  const counts = new Map<string, number>();
+  for (const c of currencies) counts.set(c, (counts.get(c) ?? 0) + 1);
+  let best = currencies[0];
+  for (const [currency, count] of counts) {
+    if (count > (counts.get(best) ?? 0)) best = currency;
+  }
+  if (counts.size > 1) {
+    console.log(`  Chunks disagreed on currency (${[...counts.keys()].join(', ')}), using ${best}`);
+  }
+  return best;
+}
+
+// Run the configured parser, passing wines to `onWine` as they are extracted.
+// Providers that don't stream have their wines passed on once the whole result is in.
+async function parseStreamed(input: ParseInput, onWine?: WineHandler): Promise<ParseResult> {
+  let streamed = 0;
+  const result = await getWineListParser().parse(input, onWine && ((wine, currency) => {
+    streamed++;
+    onWine(wine, currency);
+  }));
+  if (onWine && streamed === 0) {
+    result.wines.forEach(wine => onWine(wine, result.currency));
+  }
+  return result;
+}
+
+// Pages are numbered within a chunk; shift them back to the original document
+function shiftPage(wine: ParsedWine, offset: number): ParsedWine {
+  return { ...wine, sourcePage: typeof wine.sourcePage === 'number' ? wine.sourcePage + offset : null };
+}
+
+/**
+ * Parse a long PDF as page-range chunks in parallel so no single response hits max_tokens.
+ * Failed or truncated chunks are reported as failures rather than silently dropping wines.
+ */
+async function parseChunkedPdf(chunks: PdfChunk[], onWine?: WineHandler): Promise<ParseResult> {
+  const settled = await mapWithConcurrency(chunks, config.parseConcurrency, chunk => {
+    const offset = chunk.firstPage - 1;
+    return parseStreamed(
+      { kind: 'pdf', data: chunk.data },
+      onWine && ((wine, currency) => onWine(shiftPage(wine, offset), currency))
+    );
+  });
+
+  const wines: ParsedWine[] = [];
+  const currencies: string[] = [];
+  const chunkCurrencies: (string | null)[] = [];
+  const failures: ParseFailure[] = [];
+
+  settled.forEach((result, i) => {
+    const pages = formatPageRange(chunks[i]);
+    if (result.status === 'fulfilled') {
+      const currency = normalizeCurrency(result.value.currency) ?? result.value.currency;
+      currencies.push(currency);
+      chunkCurrencies[i] = currency;
+      const offset = chunks[i].firstPage - 1;
+      wines.push(...result.value.wines.map(w => shiftPage(w, offset)));
+      if (result.value.truncated) {
+        failures.push({ pages, error: TRUNCATED_MESSAGE });
+      }
+      console.log(`  Pages ${pages}: ${result.value.wines.length} wines`);
+    } else {
+      console.error(`  Pages ${pages} failed:`, (result.reason as Error).message);
+      failures.push({ pages, error: (result.reason as Error).message });
+    }
+  });
+
+  if (currencies.length === 0) {
+    throw new Error(`All ${chunks.length} page ranges failed to parse: ${failures.map(f => f.error).join('; ')}`);
+  }
+
+  // Wines have already streamed into the session by now, so prices from pages in another
+  // currency can't be converted consistently — flag those pages for the user to check instead
+  const currency = majorityCurrency(currencies);
+  chunkCurrencies.forEach((chunkCurrency, i) => {
+    if (chunkCurrency && chunkCurrency !== currency) {
+      failures.push({
+        pages: formatPageRange(chunks[i]),
+        error: `Priced in ${chunkCurrency}, unlike the rest of the list (${currency}); these prices are shown as ${currency} unconverted, so check them`,
+      });
+    }
+  });
+
+  return {
+    currency,
+    wines: mergeParsedWines([], wines),
+    failures,
+  };
+}
+
+/**
+ * Parse an uploaded wine list of any supported type.
+ * CSVs with recognisable name/price columns are mapped directly; long PDFs are split into
+ * page ranges; everything else (including CSVs we can't map) goes through the configured parser.
+ * Every wine is validated: `onWine` is called for each valid one as soon as it is extracted,
+ * and entries that can't be used are returned in `rejected`. The currency is always an ISO code.
+ */
+export async function parseDocument(filePath: string, onWine?: WineHandler): Promise<ParseResult> {
+  const result = await parseDocumentRaw(filePath, onWine && ((raw, currency) => {
+    const { wine } = validateParsedWine(raw);
+    if (wine) onWine(wine, normalizeCurrency(currency));
+  }));
+
+  const wines: ParsedWine[] = [];
+  const rejected = [...(result.rejected ?? [])];
+  for (const { wine, rejected: entry } of result.wines.map(validateParsedWine)) {
+    if (wine) wines.push(wine);
+    else rejected.push(entry);
+  }
+  if (rejected.length > 0) {
+    console.log(`  Rejected ${rejected.length} entries: ${rejected.map(r => r.reason).join(', ')}`);
+  }
+  return { ...result, currency: normalizeCurrency(result.currency) ?? 'USD', wines, rejected };
+}
+
+async function parseDocumentRaw(filePath: string, onWine?: WineHandler): Promise<ParseResult> {
+  const ext = path.extname(filePath).toLowerCase();
+
+  if (ext === '.csv') {
+    const imported = importCsvWineList(await extractText(filePath));
+    if (imported) {
+      imported.wines.forEach(wine => onWine?.(wine, imported.currency));
+      return imported;
+    }
+    console.log('  CSV columns not recognised, sending to the parser as text');
+  }
+
+  if (ext === '.pdf') {
+    const chunks = await splitPdf(fs.readFileSync(filePath), config.parsePagesPerChunk);
+    if (chunks) return parseChunkedPdf(chunks, onWine);
+  }
+
+  const result = await parseStreamed(await readParseInput(filePath), onWine);
+  if (result.truncated) {
+    return { ...result, failures: [...(result.failures ?? []), { error: TRUNCATED_MESSAGE }] };
+  }
+  return result;
+}
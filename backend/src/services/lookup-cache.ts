@@ -0,0 +1,225 @@
+import fs from 'fs';
+import path from 'path';
+import { config } from '../config.js';
+import type { FieldSources, WineIdentity, WineMatch } from '../types/wine.js';
+import { LOOKUP_FIELDS, type LookupField } from './lookup-providers.js';
+import type { WineLookupData } from './wine-lookup.js';
+
+// ── Types ──────────────────────────────────────────────────────
+interface CachedField {
+  value: number | null; // null = a provider answered but had nothing for this wine
+  reviewCount?: number | null; // communityScore only
+  source?: string;
+  at: number; // epoch ms when looked up
+}
+
+export interface CacheEntry {
+  key: string;
+  name: string;
+  vintage: number | null;
+  currency: string;
+  fields: Partial<Record<LookupField, CachedField>>;
+  match?: WineMatch; // what the cached Wine-Searcher data was matched to
+}
+
+export interface CachedLookup {
+  data: WineLookupData; // fresh values only; stale or missing fields are null
+  fresh: LookupField[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const SAVE_DELAY_MS = 1000;
+const PRICE_FIELDS: LookupField[] = ['retailPriceAvg', 'retailPriceMin'];
+
+// ── Store ──────────────────────────────────────────────────────
+// Kept in memory and written back to a JSON file shortly after each change.
+// The file also holds the user's picks for ambiguous Wine-Searcher matches, which don't expire.
+let entries: Map<string, CacheEntry> | null = null;
+let matchChoices = new Map<string, string>();
+let saveTimer: ReturnType<typeof setTimeout> | null = null;
+
+function ttlMs(field: LookupField, cached: CachedField): number {
+  const { price, score, miss } = config.lookupCacheTtlDays;
+  if (cached.value === null) return miss * DAY_MS;
+  return (PRICE_FIELDS.includes(field) ? price : score) * DAY_MS;
+}
+
+function isFresh(field: LookupField, cached: CachedField | undefined, now = Date.now()): cached is CachedField {
+  return cached !== undefined && now - cached.at < ttlMs(field, cached);
+}
+
+function isExpired(entry: CacheEntry, now = Date.now()): boolean {
+  return LOOKUP_FIELDS.every(f => !isFresh(f, entry.fields[f], now));
+}
+
+function store(): Map<string, CacheEntry> {
+  if (entries) return entries;
+  entries = new Map();
+  try {
+    const saved = JSON.parse(fs.readFileSync(config.lookupCacheFile, 'utf-8')) as {
+      entries?: CacheEntry[];
+      matchChoices?: Record<string, string>;
+    };
+    for (const entry of saved.entries ?? []) {
+      if (!isExpired(entry)) entries.set(entry.key, entry);
+    }
+    matchChoices = new Map(Object.entries(saved.matchChoices ?? {}));
+    console.log(`Lookup cache: loaded ${entries.size} entries from ${config.lookupCacheFile}`);
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code !== 'ENOENT') {
+      console.error(`Lookup cache: could not read ${config.lookupCacheFile}, starting empty:`, (err as Error).message);
+    }
+  }
+  return entries;
+}
+
+function scheduleSave(): void {
+  if (saveTimer) return;
+  saveTimer = setTimeout(() => {
+    saveTimer = null;
+    try {
+      fs.mkdirSync(path.dirname(config.lookupCacheFile), { recursive: true });
+      // Write then rename so a crash mid-write never leaves a truncated cache
+      const tmp = `${config.lookupCacheFile}.tmp`;
+      fs.writeFileSync(tmp, JSON.stringify({ entries: [...store().values()], matchChoices: Object.fromEntries(matchChoices) }));
+      fs.renameSync(tmp, config.lookupCacheFile);
+    } catch (err) {
+      console.error('Lookup cache: save failed:', (err as Error).message);
+    }
+  }, SAVE_DELAY_MS);
+}
+
+export function cacheKey(wine: Pick<WineIdentity, 'name' | 'vintage'>, currency: string): string {
+  const name = wine.name.toLowerCase().trim();
+  const vintage = wine.vintage ?? 'nv';
+  return `${name}|${vintage}|${currency}`;
+}
+
+// ── Lookup use ─────────────────────────────────────────────────
+/**
+ * Fresh cached values for a wine. Each field expires on its own, so a wine whose price
+ * has gone stale still has its critic score — only the stale fields need looking up again.
+ */
+export function readCachedLookup(wine: WineIdentity, currency: string): CachedLookup {
+  const entry = store().get(cacheKey(wine, currency));
+  const data: WineLookupData = {
+    retailPriceAvg: null,
+    retailPriceMin: null,
+    criticScore: null,
+    communityScore: null,
+    communityReviewCount: null,
+    fieldSources: {},
+  };
+  const fresh: LookupField[] = [];
+  if (!entry) return { data, fresh };
+
+  const now = Date.now();
+  for (const field of LOOKUP_FIELDS) {
+    const cached = entry.fields[field];
+    if (!isFresh(field, cached, now)) continue;
+    fresh.push(field);
+    data[field] = cached.value;
+    if (cached.source) data.fieldSources[field] = cached.source;
+    if (field === 'communityScore') data.communityReviewCount = cached.reviewCount ?? null;
+  }
+  if (entry.match && fresh.length > 0) data.match = entry.match;
+  return { data, fresh };
+}
+
+/**
+ * Save the fields a lookup got an answer for. Fields no provider answered (errors,
+ * rate limits, no provider configured) are left alone so they're retried next time.
+ */
+export function writeCachedLookup(wine: WineIdentity, currency: string, data: WineLookupData, fields: LookupField[]): void {
+  if (fields.length === 0) return;
+  const key = cacheKey(wine, currency);
+  const entry: CacheEntry = store().get(key) ?? { key, name: wine.name, vintage: wine.vintage, currency, fields: {} };
+  const at = Date.now();
+  const sources: FieldSources = data.fieldSources;
+
+  for (const field of fields) {
+    entry.fields[field] = {
+      value: data[field],
+      source: sources[field],
+      at,
+      ...(field === 'communityScore' ? { reviewCount: data.communityReviewCount } : {}),
+    };
+  }
+  if (data.match) entry.match = data.match;
+  store().set(key, entry);
+  scheduleSave();
+}
+
+// ── Match choices ──────────────────────────────────────────────
+// Keyed by the menu text (producer + name), not the vintage: the same listing resolves
+// to the same Wine-Searcher wine whichever vintage the restaurant is pouring.
+function matchKey(wine: Pick<WineIdentity, 'name' | 'producer'>): string {
+  return `${wine.producer.trim()}|${wine.name.trim()}`.toLowerCase();
+}
+
+export function getMatchChoice(wine: Pick<WineIdentity, 'name' | 'producer'>): string | undefined {
+  store();
+  return matchChoices.get(matchKey(wine));
+}
+
+export function saveMatchChoice(wine: Pick<WineIdentity, 'name' | 'producer'>, matchedName: string): void {
+  store();
+  matchChoices.set(matchKey(wine), matchedName);
+  scheduleSave();
+}
+
+// ── Admin ──────────────────────────────────────────────────────
+function matches(entry: CacheEntry, search?: string): boolean {
+  return !search || entry.key.includes(search.toLowerCase().trim());
+}
+
+function describe(entry: CacheEntry, now: number) {
+  const fields: Record<string, CachedField & { expiresAt: string; fresh: boolean }> = {};
+  for (const field of LOOKUP_FIELDS) {
+    const cached = entry.fields[field];
+    if (!cached) continue;
+    fields[field] = {
+      ...cached,
+      expiresAt: new Date(cached.at + ttlMs(field, cached)).toISOString(),
+      fresh: isFresh(field, cached, now),
+    };
+  }
+  return { ...entry, fields };
+}
+
+export function listCacheEntries(options: { search?: string; limit: number; offset: number }) {
+  const now = Date.now();
+  const found = [...store().values()].filter(e => matches(e, options.search));
+  return {
+    total: found.length,
+    entries: found.slice(options.offset, options.offset + options.limit).map(e => describe(e, now)),
+  };
+}
+
+/**
+ * Remove entries matching `search` (a substring of "name|vintage|currency"), only expired ones,
+ * or everything when neither is given. Returns how many were removed.
+ */
+export function purgeCache(options: { search?: string; expiredOnly?: boolean }): number {
+  const now = Date.now();
+  let removed = 0;
+  for (const [key, entry] of store()) {
+    if (!matches(entry, options.search)) continue;
+    if (options.expiredOnly && !isExpired(entry, now)) continue;
+    store().delete(key);
+    removed++;
+  }
+  if (removed > 0) scheduleSave();
+  return removed;
+}
+
+export function getCacheStats() {
+  const now = Date.now();
+  const all = [...store().values()];
+  return {
+    size: all.length,
+    expired: all.filter(e => isExpired(e, now)).length,
+    file: config.lookupCacheFile,
+    ttlDays: config.lookupCacheTtlDays,
+  };
+}
@@ -0,0 +1,71 @@
+import { config } from '../config.js';
+import type { ApiUsage, MatchCandidate, WineIdentity, WineMatch } from '../types/wine.js';
+import { wineSearcherProvider } from './wine-searcher-api.js';
+import { cellarTrackerProvider } from './community-lookup.js';
+import { webSearchProvider } from './web-search-fallback.js';
+
+// ── Types ──────────────────────────────────────────────────────
+// Fields a provider can fill. The community review count always travels with the community score.
+export type LookupField = 'retailPriceAvg' | 'retailPriceMin' | 'criticScore' | 'communityScore';
+
+export const LOOKUP_FIELDS: LookupField[] = ['retailPriceAvg', 'retailPriceMin', 'criticScore', 'communityScore'];
+
+export interface ProviderLookupData {
+  retailPriceAvg?: number | null;
+  retailPriceMin?: number | null;
+  criticScore?: number | null;
+  communityScore?: number | null;
+  communityReviewCount?: number | null;
+  candidates?: MatchCandidate[]; // several wines matched and the provider couldn't tell which; [] once resolved
+  match?: WineMatch; // the wine the provider's data is for, when it reports one
+}
+
+// What a provider is asked to look up. `matchedName` is the Wine-Searcher wine the user
+// picked when this menu text was ambiguous, if they have; `usage` is the session's API usage,
+// which calls are counted against (and limited by) along with the daily totals.
+export type LookupQuery = WineIdentity & { matchedName?: string; usage?: ApiUsage };
+
+/**
+ * A source of prices and/or scores for a wine.
+ * `fields` declares what it can supply; the orchestrator only calls it while one of those is still missing
+ * (or, if it sets `triggers`, one of those), and takes whichever of `fields` are still missing from its answer.
+ * When `signal` aborts, `lookup` should reject rather than report the wine as not found.
+ */
+export interface LookupProvider {
+  readonly name: string;
+  readonly fields: LookupField[];
+  readonly triggers?: LookupField[];
+  isAvailable(): boolean; // false when unconfigured (no API key) — skipped without a call
+  lookup(wine: LookupQuery, currency: string, signal?: AbortSignal): Promise<ProviderLookupData>;
+}
+
+// ── Registry ───────────────────────────────────────────────────
+const registry = new Map<string, LookupProvider>();
+
+export function registerLookupProvider(provider: LookupProvider): void {
+  registry.set(provider.name, provider);
+}
+
+registerLookupProvider(wineSearcherProvider);
+registerLookupProvider(cellarTrackerProvider);
+registerLookupProvider(webSearchProvider);
+
+export function getLookupProvider(name: string): LookupProvider | undefined {
+  return registry.get(name);
+}
+
+let warnedUnknown = false;
+
+/**
+ * Registered providers in LOOKUP_PROVIDERS order. Providers left out of the list are not used.
+ */
+export function getLookupProviders(): LookupProvider[] {
+  const unknown = config.lookupProviders.filter(name => !registry.has(name));
+  if (unknown.length > 0 && !warnedUnknown) {
+    warnedUnknown = true;
+    console.warn(`Unknown lookup providers in LOOKUP_PROVIDERS: ${unknown.join(', ')} (known: ${[...registry.keys()].join(', ')})`);
+  }
+  return config.lookupProviders
+    .map(name => registry.get(name))
+    .filter((p): p is LookupProvider => p !== undefined);
+}
@@ -0,0 +1,110 @@
+import type { MarkupOutlier, MarkupStats, MarkupSummary, SessionData, WineStyle, WineValueResult } from '../types/wine.js';
+
+type PricedWine = WineValueResult & { markupPercent: number };
+
+const MIN_REGION_WINES = 2; // a region with a single priced wine says nothing about the list
+const MIN_FOR_OUTLIERS = 4; // quartiles of fewer wines can't single anything out
+const OUTLIER_IQR = 1.5; // Tukey's fences: beyond 1.5× the interquartile range from the quartiles
+const MAX_OUTLIERS = 5; // per direction
+
+// ── Statistics ─────────────────────────────────────────────────
+const round1 = (n: number) => Math.round(n * 10) / 10;
+
+// Linear interpolation between the closest ranks of an ascending list
+function quantile(sorted: number[], q: number): number {
+  const pos = (sorted.length - 1) * q;
+  const lower = Math.floor(pos);
+  const upper = Math.min(lower + 1, sorted.length - 1);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (pos - lower);
+}
+
+export function markupStats(markups: number[]): MarkupStats | null {
+  if (markups.length === 0) return null;
+  const sorted = [...markups].sort((a, b) => a - b);
+  const mean = sorted.reduce((sum, m) => sum + m, 0) / sorted.length;
+  const variance = sorted.reduce((sum, m) => sum + (m - mean) ** 2, 0) / sorted.length;
+  return {
+    count: sorted.length,
+    mean: round1(mean),
+    median: round1(quantile(sorted, 0.5)),
+    p25: round1(quantile(sorted, 0.25)),
+    p75: round1(quantile(sorted, 0.75)),
+    min: round1(sorted[0]),
+    max: round1(sorted[sorted.length - 1]),
+    stdDev: round1(Math.sqrt(variance)),
+  };
+}
+
+// Wines grouped by key, in first-seen order
+function groupBy<K>(wines: PricedWine[], keyOf: (wine: PricedWine) => K): Map<K, PricedWine[]> {
+  const groups = new Map<K, PricedWine[]>();
+  for (const wine of wines) {
+    const key = keyOf(wine);
+    groups.set(key, [...(groups.get(key) ?? []), wine]);
+  }
+  return groups;
+}
+
+const statsOf = (wines: PricedWine[]) => markupStats(wines.map(w => w.markupPercent))!;
+
+// ── Summary ────────────────────────────────────────────────────
+/** Markup across the whole list and broken down by price tier, region and style, with the outliers. */
+export function summarizeMarkups(session: SessionData): MarkupSummary {
+  const priced = session.wines.filter((w): w is PricedWine => w.markupPercent !== null);
+  const scored = session.wines.filter(w => w.valueScore !== null).length;
+  const overall = markupStats(priced.map(w => w.markupPercent));
+
+  const byTier = session.priceTiers.map((tier, i) => ({
+    tier,
+    stats: markupStats(priced.filter(w => w.priceTier === i).map(w => w.markupPercent)),
+  }));
+
+  // Regions are compared ignoring case and surrounding spaces; the first spelling seen is shown
+  const regions = groupBy(priced.filter(w => w.region.trim()), w => w.region.trim().toLowerCase());
+  const byRegion = [...regions.values()]
+    .filter(wines => wines.length >= MIN_REGION_WINES)
+    .map(wines => ({ region: wines[0].region.trim(), stats: statsOf(wines) }))
+    .sort((a, b) => b.stats.count - a.stats.count || a.region.localeCompare(b.region));
+
+  const styles = groupBy<WineStyle | null>(priced, w => w.style);
+  const byStyle = [...styles.entries()]
+    .map(([style, wines]) => ({ style, stats: statsOf(wines) }))
+    .sort((a, b) => b.stats.count - a.stats.count);
+
+  const outliers: MarkupSummary['outliers'] = { high: [], low: [] };
+  if (overall && overall.count >= MIN_FOR_OUTLIERS) {
+    const fence = OUTLIER_IQR * (overall.p75 - overall.p25);
+    const toOutlier = (wine: PricedWine): MarkupOutlier => ({
+      index: session.wines.indexOf(wine),
+      name: wine.name,
+      producer: wine.producer,
+      vintage: wine.vintage,
+      restaurantPrice: wine.restaurantPrice,
+      markupPercent: Math.round(wine.markupPercent),
+    });
+    outliers.high = priced
+      .filter(w => w.markupPercent > overall.p75 + fence)
+      .sort((a, b) => b.markupPercent - a.markupPercent)
+      .slice(0, MAX_OUTLIERS)
+      .map(toOutlier);
+    outliers.low = priced
+      .filter(w => w.markupPercent < overall.p25 - fence)
+      .sort((a, b) => a.markupPercent - b.markupPercent)
+      .slice(0, MAX_OUTLIERS)
+      .map(toOutlier);
+  }
+
+  return {
+    coverage: {
+      wines: session.wines.length,
+      priced: priced.length,
+      scored,
+      scoredShare: session.wines.length > 0 ? Math.round((scored / session.wines.length) * 100) / 100 : 0,
+    },
+    overall,
+    byTier,
+    byRegion,
+    byStyle,
+    outliers,
+  };
+}
@@ -0,0 +1,46 @@
+import { PDFDocument } from 'pdf-lib';
+
+export interface PdfChunk {
+  firstPage: number; // 1-based, inclusive
+  lastPage: number;
+  data: Buffer;
+}
+
+export function formatPageRange(chunk: Pick<PdfChunk, 'firstPage' | 'lastPage'>): string {
+  return chunk.firstPage === chunk.lastPage ? `${chunk.firstPage}` : `${chunk.firstPage}-${chunk.lastPage}`;
+}
+
+/**
+ * Split a PDF into standalone documents of at most `pagesPerChunk` pages each.
+ * Returns null when the PDF is short enough to parse in one request, or when it can't be
+ * split (encrypted/malformed) — callers should then send the whole file as-is.
+ */
+export async function splitPdf(pdf: Buffer, pagesPerChunk: number): Promise<PdfChunk[] | null> {
+  let source: PDFDocument;
+  try {
+    source = await PDFDocument.load(pdf, { ignoreEncryption: true });
+  } catch (err) {
+    console.log(`  Could not split PDF (${(err as Error).message}), parsing as a single document`);
+    return null;
+  }
+
+  const pageCount = source.getPageCount();
+  if (pageCount <= pagesPerChunk) return null;
+
+  const chunks: PdfChunk[] = [];
+  for (let start = 0; start < pageCount; start += pagesPerChunk) {
+    const indices = Array.from({ length: Math.min(pagesPerChunk, pageCount - start) }, (_, i) => start + i);
+    // No creation/modification dates, so the same pages always give the same bytes (and fixture key)
+    const chunkDoc = await PDFDocument.create({ updateMetadata: false });
+    const pages = await chunkDoc.copyPages(source, indices);
+    pages.forEach(page => chunkDoc.addPage(page));
+    chunks.push({
+      firstPage: start + 1,
+      lastPage: start + indices.length,
+      data: Buffer.from(await chunkDoc.save()),
+    });
+  }
+
+  console.log(`  Split ${pageCount}-page PDF into ${chunks.length} chunks of up to ${pagesPerChunk} pages`);
+  return chunks;
+}
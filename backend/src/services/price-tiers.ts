@@ -0,0 +1,65 @@
+import type { PriceTier, SessionData } from '../types/wine.js';
+
+// ── Tiers ──────────────────────────────────────────────────────
+// A list's menu prices split into up to four bands of similar size, at round numbers
+// ("under £40", "£40–£80", ...), so value can be compared between wines a guest would choose between.
+const MAX_TIERS = 4;
+const MIN_WINES_PER_TIER = 6;
+const MIN_RANKED = 3; // fewer scored wines in a tier than this and ranks would mean nothing
+
+// Nearest "menu-round" number: 1, 1.5, 2, 2.5, 3, 4, 5, 6, 7.5, 8 times a power of ten
+const NICE_STEPS = [1, 1.5, 2, 2.5, 3, 4, 5, 6, 7.5, 8, 10];
+
+function niceRound(value: number): number {
+  const magnitude = 10 ** Math.floor(Math.log10(value));
+  const step = NICE_STEPS.reduce((best, s) =>
+    Math.abs(s * magnitude - value) < Math.abs(best * magnitude - value) ? s : best
+  );
+  return step * magnitude;
+}
+
+export function computePriceTiers(prices: number[]): PriceTier[] {
+  const sorted = prices.filter(p => p > 0).sort((a, b) => a - b);
+  const count = Math.min(MAX_TIERS, Math.floor(sorted.length / MIN_WINES_PER_TIER));
+  if (count < 2) return [{ min: 0, max: null }];
+
+  const bounds: number[] = [];
+  for (let i = 1; i < count; i++) {
+    const bound = niceRound(sorted[Math.floor((i * sorted.length) / count)]);
+    // Rounding can merge neighbouring bounds or push one past the dearest wine
+    if (bound > (bounds.at(-1) ?? 0) && bound <= sorted[sorted.length - 1]) bounds.push(bound);
+  }
+  return [0, ...bounds].map((min, i) => ({ min, max: bounds[i] ?? null }));
+}
+
+// ── Ranks ──────────────────────────────────────────────────────
+/**
+ * Recompute the session's price tiers and each wine's tier and value rank within it.
+ * Ties share the better rank; wines without a value score are placed in a tier but not ranked.
+ */
+export function assignPriceTiers(session: SessionData): void {
+  session.priceTiers = computePriceTiers(session.wines.map(w => w.restaurantPrice));
+
+  const tierOf = (price: number) =>
+    session.priceTiers.findIndex(t => price >= t.min && (t.max === null || price < t.max));
+
+  const scoredByTier = new Map<number, number[]>();
+  for (const wine of session.wines) {
+    wine.priceTier = tierOf(wine.restaurantPrice);
+    if (wine.priceTier === -1) wine.priceTier = null;
+    if (wine.priceTier !== null && wine.valueScore !== null) {
+      scoredByTier.set(wine.priceTier, [...(scoredByTier.get(wine.priceTier) ?? []), wine.valueScore]);
+    }
+  }
+
+  for (const wine of session.wines) {
+    const scores = wine.priceTier !== null ? scoredByTier.get(wine.priceTier) ?? [] : [];
+    if (wine.valueScore === null || scores.length < MIN_RANKED) {
+      wine.tierRank = null;
+      continue;
+    }
+    const score = wine.valueScore;
+    const rank = scores.filter(s => s > score).length + 1;
+    wine.tierRank = { rank, of: scores.length, topPercent: Math.max(1, Math.round((100 * rank) / scores.length)) };
+  }
+}
@@ -0,0 +1,107 @@
+import type { PriceTier, Recommendation, RecommendationFilters, Recommendations, SessionData, WineValueResult } from '../types/wine.js';
+import { formatPrice } from './currency.js';
+
+// ── Filters ────────────────────────────────────────────────────
+// "Bourgogne" should find "bourgogne", "Rhône" should find "Rhone"
+function fold(text: string): string {
+  return text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().trim();
+}
+
+function matchesFilters(wine: WineValueResult, filters: RecommendationFilters): boolean {
+  const { maxPrice, style, region, grape } = filters;
+  if (maxPrice !== null && wine.restaurantPrice > maxPrice) return false;
+  if (style !== null && wine.style !== style) return false;
+  if (region !== null && !fold(`${wine.region} ${wine.section ?? ''}`).includes(fold(region))) return false;
+  if (grape !== null && !fold(wine.grapeVariety).includes(fold(grape))) return false;
+  return true;
+}
+
+// ── Reasons ────────────────────────────────────────────────────
+const ordinal = (n: number) => `${n}${['th', 'st', 'nd', 'rd'][n % 100 >= 11 && n % 100 <= 13 ? 0 : n % 10] ?? 'th'}`;
+const THIN_EVIDENCE = 2.5; // quality uncertainty (± points) above which the reason says so
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+function tierLabel({ min, max }: PriceTier, currency: string): string {
+  if (max === null) return `at ${formatPrice(min, currency)} and up`;
+  return min > 0 ? `from ${formatPrice(min, currency)} to ${formatPrice(max, currency)}` : `under ${formatPrice(max, currency)}`;
+}
+
+// What the quality estimate rests on: "critics 93 and 140 community reviews averaging 94"
+function qualityEvidence(wine: WineValueResult): string {
+  const parts: string[] = [];
+  if (wine.criticScore !== null) parts.push(`critics ${wine.criticScore}`);
+  if (wine.communityScore !== null) {
+    parts.push(wine.communityReviewCount !== null
+      ? `${wine.communityReviewCount} community review${wine.communityReviewCount === 1 ? '' : 's'} averaging ${wine.communityScore}`
+      : `a community score of ${wine.communityScore}`);
+  }
+  return parts.join(' and ');
+}
+
+function reasonFor(wine: WineValueResult, session: SessionData, listMarkup: number | null): string {
+  const b = wine.scoreBreakdown!;
+  const clauses: string[] = [];
+
+  const markup = `${b.markupRatio.toFixed(1)}× retail (${formatPrice(b.retailForFormat, session.currency)})`;
+  clauses.push(listMarkup !== null && Math.abs(listMarkup - b.markupRatio) >= 0.1
+    ? `${markup}, against ${listMarkup.toFixed(1)}× across the list`
+    : markup);
+
+  const evidence = qualityEvidence(wine);
+  clauses.push(`quality ${Math.round(b.quality)}${evidence ? ` from ${evidence}` : ''}`);
+  if (b.qualityUncertainty > THIN_EVIDENCE) clauses.push('few reviews, so the quality is a rough guess');
+
+  const tier = wine.priceTier !== null ? session.priceTiers[wine.priceTier] : undefined;
+  if (wine.tierRank && tier && session.priceTiers.length > 1) {
+    const { rank, of } = wine.tierRank;
+    clauses.push(rank === 1
+      ? `best value of ${of} ${tierLabel(tier, session.currency)}`
+      : `${ordinal(rank)} of ${of} for value ${tierLabel(tier, session.currency)}`);
+  }
+
+  const sentence = clauses.join('; ');
+  return `${sentence[0].toUpperCase()}${sentence.slice(1)}`;
+}
+
+// ── Recommendations ────────────────────────────────────────────
+/**
+ * The best-value wines on the list that pass the filters, by value score, then quality, then cheapest.
+ * Wines without a value score are counted but never picked.
+ */
+export function recommendWines(session: SessionData, filters: RecommendationFilters): Recommendations {
+  const matching = session.wines
+    .map((wine, index) => ({ wine, index }))
+    .filter(({ wine }) => matchesFilters(wine, filters));
+
+  const scored = matching.filter(({ wine }) =>
+    wine.valueScore !== null &&
+    wine.scoreBreakdown !== null &&
+    (filters.minQuality === null || (wine.qualityEstimate ?? 0) >= filters.minQuality)
+  );
+  scored.sort((a, b) =>
+    b.wine.valueScore! - a.wine.valueScore! ||
+    (b.wine.qualityEstimate ?? 0) - (a.wine.qualityEstimate ?? 0) ||
+    a.wine.restaurantPrice - b.wine.restaurantPrice
+  );
+
+  const listMarkup = median(session.wines.flatMap(w => (w.scoreBreakdown ? [w.scoreBreakdown.markupRatio] : [])));
+  const picks: Recommendation[] = scored.slice(0, filters.limit).map(({ wine, index }, i) => ({
+    rank: i + 1,
+    index,
+    wine,
+    reason: reasonFor(wine, session, listMarkup),
+  }));
+
+  return {
+    filters,
+    matched: scored.length,
+    unscored: matching.filter(({ wine }) => wine.valueScore === null).length,
+    picks,
+  };
+}
@@ -0,0 +1,161 @@
+import fs from 'fs';
+import { config } from '../config.js';
+import type { SessionData } from '../types/wine.js';
+import { DEFAULT_SCORING_MODEL, scoreWine, type ScoringModel } from './value-calculator.js';
+import { assignPriceTiers } from './price-tiers.js';
+
+// ── Types ──────────────────────────────────────────────────────
+export interface ScoringProfile extends ScoringModel {
+  name: string; // what requests and sessions refer to it by
+  label: string;
+  description: string;
+}
+
+const BUILT_IN_PROFILES: ScoringProfile[] = [
+  {
+    name: 'balanced',
+    label: 'Balanced',
+    description: 'Critic and community scores blended 40/60, quality divided by the markup ratio',
+    ...DEFAULT_SCORING_MODEL,
+  },
+  {
+    name: 'critic-driven',
+    label: 'Critic-driven',
+    description: 'Trusts the critics: 80% critic score, 20% community',
+    criticWeight: 0.8,
+    communityWeight: 0.2,
+    communityPriorReviews: 5,
+    markupExponent: 1,
+    qualityFloor: 0,
+  },
+  {
+    name: 'crowd-favourite',
+    label: 'Crowd favourite',
+    description: 'Trusts the drinkers: 80% community score, 20% critic',
+    criticWeight: 0.2,
+    communityWeight: 0.8,
+    communityPriorReviews: 5,
+    markupExponent: 1,
+    qualityFloor: 0,
+  },
+  {
+    name: 'bargain-hunter',
+    label: 'Bargain hunter',
+    description: 'Markup matters most — high markups are penalised harder; anything decent (85+) qualifies',
+    criticWeight: 0.4,
+    communityWeight: 0.6,
+    communityPriorReviews: 5,
+    markupExponent: 1.5,
+    qualityFloor: 85,
+  },
+  {
+    name: 'special-occasion',
+    label: 'Special occasion',
+    description: 'Quality first — only wines scoring 90+ count, and markup is penalised gently',
+    criticWeight: 0.5,
+    communityWeight: 0.5,
+    communityPriorReviews: 10,
+    markupExponent: 0.5,
+    qualityFloor: 90,
+  },
+];
+
+// ── Profiles ───────────────────────────────────────────────────
+// The built-ins, plus any defined in SCORING_PROFILES_FILE: a JSON array of profiles. An entry with
+// a built-in's name overrides just the fields it sets; a new name starts from the balanced model.
+let profiles: Map<string, ScoringProfile> | null = null;
+
+function toProfile(raw: unknown, base: ScoringProfile): ScoringProfile {
+  const entry = (raw ?? {}) as Partial<Record<keyof ScoringProfile, unknown>>;
+  const number = (key: keyof ScoringModel, min: number, max: number): number => {
+    const value = entry[key] ?? base[key];
+    if (typeof value !== 'number' || !(value >= min && value <= max)) {
+      throw new Error(`profile "${base.name}": ${key} must be a number from ${min} to ${max}`);
+    }
+    return value;
+  };
+  const profile: ScoringProfile = {
+    name: base.name,
+    label: typeof entry.label === 'string' ? entry.label : base.label,
+    description: typeof entry.description === 'string' ? entry.description : base.description,
+    criticWeight: number('criticWeight', 0, 100),
+    communityWeight: number('communityWeight', 0, 100),
+    communityPriorReviews: number('communityPriorReviews', 0, 1000),
+    markupExponent: number('markupExponent', 0, 5),
+    qualityFloor: number('qualityFloor', 0, 100),
+  };
+  if (profile.criticWeight + profile.communityWeight === 0) {
+    throw new Error(`profile "${base.name}": criticWeight and communityWeight can't both be 0`);
+  }
+  return profile;
+}
+
+function readProfiles(): Map<string, ScoringProfile> {
+  const loaded = new Map(BUILT_IN_PROFILES.map(p => [p.name, p]));
+  let raw: unknown;
+  try {
+    raw = JSON.parse(fs.readFileSync(config.scoringProfilesFile, 'utf-8'));
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT') return loaded;
+    throw err;
+  }
+  if (!Array.isArray(raw)) throw new Error('expected an array of profiles');
+  for (const entry of raw) {
+    const name = (entry as { name?: unknown })?.name;
+    if (typeof name !== 'string' || !/^[a-z0-9-]+$/.test(name)) {
+      throw new Error('each profile needs a "name" of lowercase letters, digits and dashes');
+    }
+    const base = loaded.get(name) ?? { ...loaded.get('balanced')!, name, label: name, description: '' };
+    loaded.set(name, toProfile(entry, base));
+  }
+  return loaded;
+}
+
+function store(): Map<string, ScoringProfile> {
+  if (profiles) return profiles;
+  try {
+    profiles = readProfiles();
+  } catch (err) {
+    console.error(`Scoring profiles: could not read ${config.scoringProfilesFile}, using the built-in ones:`, (err as Error).message);
+    profiles = new Map(BUILT_IN_PROFILES.map(p => [p.name, p]));
+  }
+  return profiles;
+}
+
+export function listScoringProfiles(): ScoringProfile[] {
+  return [...store().values()];
+}
+
+export function getScoringProfile(name: string): ScoringProfile | undefined {
+  return store().get(name);
+}
+
+// DEFAULT_SCORING_PROFILE, or balanced if that names no profile
+export function defaultScoringProfile(): ScoringProfile {
+  return store().get(config.defaultScoringProfile) ?? store().get('balanced')!;
+}
+
+/** The profile a session is scored with; the default if its profile has since been removed. */
+export function profileFor(session: SessionData): ScoringProfile {
+  return store().get(session.scoringProfile) ?? defaultScoringProfile();
+}
+
+/** Re-read the profiles file. Rejects, keeping the current profiles, if it is invalid. */
+export function reloadScoringProfiles(): ScoringProfile[] {
+  profiles = readProfiles();
+  console.log(`Scoring profiles: ${profiles.size} loaded`);
+  return listScoringProfiles();
+}
+
+/**
+ * Recompute every looked-up wine's value score with the session's profile — no new lookups.
+ * Also brings community score priors and price tier ranks up to date with the rest of the list.
+ * Lookup statuses are left alone, so a wine whose lookup failed still shows it.
+ */
+export function rescoreSession(session: SessionData): void {
+  const profile = profileFor(session);
+  for (const wine of session.wines) {
+    if (wine.lookupStatus !== 'pending') scoreWine(wine, profile, session);
+  }
+  assignPriceTiers(session);
+}
@@ -0,0 +1,127 @@
+import fs from 'fs';
+import { PDFDocument, rgb } from 'pdf-lib';
+import { imageSize } from 'image-size';
+import type { SourceBox } from '../types/wine.js';
+
+export type SnippetMode = 'crop' | 'highlight';
+
+export interface Snippet {
+  contentType: string;
+  body: Buffer;
+}
+
+// Context kept around a cropped entry, as a fraction of the page size
+const CROP_MARGIN = 0.04;
+
+const IMAGE_MIME: Record<string, string> = {
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+  '.webp': 'image/webp',
+};
+
+function expand(box: SourceBox): SourceBox {
+  const x = Math.max(0, box.x - CROP_MARGIN);
+  const y = Math.max(0, box.y - CROP_MARGIN);
+  return {
+    x,
+    y,
+    width: Math.min(1, box.x + box.width + CROP_MARGIN) - x,
+    height: Math.min(1, box.y + box.height + CROP_MARGIN) - y,
+  };
+}
+
+/**
+ * Single-page PDF of the wine's page with its entry highlighted; in crop mode the
+ * crop box is narrowed to the entry so viewers open zoomed in on it.
+ */
+async function pdfSnippet(filePath: string, page: number, box: SourceBox | null, mode: SnippetMode): Promise<Snippet> {
+  const source = await PDFDocument.load(fs.readFileSync(filePath), { ignoreEncryption: true });
+  if (page > source.getPageCount()) {
+    throw new Error(`Page ${page} is out of range (document has ${source.getPageCount()} pages)`);
+  }
+
+  const out = await PDFDocument.create();
+  const [copied] = await out.copyPages(source, [page - 1]);
+  out.addPage(copied);
+
+  if (box) {
+    const { width, height } = copied.getSize();
+    // PDF coordinates start bottom-left; boxes are top-left fractions
+    copied.drawRectangle({
+      x: box.x * width,
+      y: height - (box.y + box.height) * height,
+      width: box.width * width,
+      height: box.height * height,
+      color: rgb(0.98, 0.8, 0.08),
+      opacity: 0.25,
+      borderColor: rgb(0.92, 0.7, 0.03),
+      borderWidth: 1.5,
+    });
+
+    if (mode === 'crop') {
+      const crop = expand(box);
+      copied.setCropBox(crop.x * width, height - (crop.y + crop.height) * height, crop.width * width, crop.height * height);
+    }
+  }
+
+  return { contentType: 'application/pdf', body: Buffer.from(await out.save()) };
+}
+
+// EXIF orientations 5–8 rotate the photo a quarter turn, so it displays with width and height swapped
+const QUARTER_TURN_ORIENTATIONS = new Set([5, 6, 7, 8]);
+
+/**
+ * SVG that embeds the photo and draws the highlight over it. Cropping is done with the
+ * viewBox, so no image processing library is needed and the original pixels are untouched.
+ * Browsers draw the photo upright from its EXIF orientation, and boxes are fractions of the
+ * upright page, so only the dimensions need turning.
+ */
+function imageSnippet(filePath: string, ext: string, box: SourceBox | null, mode: SnippetMode): Snippet {
+  const data = fs.readFileSync(filePath);
+  const size = imageSize(data);
+  if (!size.width || !size.height) {
+    throw new Error('Could not read image dimensions');
+  }
+  const turned = QUARTER_TURN_ORIENTATIONS.has(size.orientation ?? 1);
+  const width = turned ? size.height : size.width;
+  const height = turned ? size.width : size.height;
+
+  const view = box && mode === 'crop' ? expand(box) : { x: 0, y: 0, width: 1, height: 1 };
+  const vx = Math.round(view.x * width);
+  const vy = Math.round(view.y * height);
+  const vw = Math.round(view.width * width);
+  const vh = Math.round(view.height * height);
+  const stroke = Math.max(2, Math.round(Math.min(width, height) / 300));
+
+  const highlight = box
+    ? `<rect x="${box.x * width}" y="${box.y * height}" width="${box.width * width}" height="${box.height * height}" fill="rgb(250,204,21)" fill-opacity="0.25" stroke="rgb(234,179,8)" stroke-width="${stroke}"/>`
+    : '';
+
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" viewBox="${vx} ${vy} ${vw} ${vh}" width="${vw}" height="${vh}">`
+    + `<image href="data:${IMAGE_MIME[ext]};base64,${data.toString('base64')}" x="0" y="0" width="${width}" height="${height}"/>`
+    + highlight
+    + '</svg>';
+
+  return { contentType: 'image/svg+xml', body: Buffer.from(svg) };
+}
+
+/**
+ * Render the part of an uploaded document a wine was parsed from.
+ * Only PDFs and photos have page geometry; text documents have no location to show.
+ */
+export async function renderSourceSnippet(
+  filePath: string,
+  ext: string,
+  page: number,
+  box: SourceBox | null,
+  mode: SnippetMode
+): Promise<Snippet> {
+  if (ext === '.pdf') {
+    return pdfSnippet(filePath, page, box, mode);
+  }
+  if (IMAGE_MIME[ext]) {
+    return imageSnippet(filePath, ext, box, mode);
+  }
+  throw new Error(`No page view available for ${ext} files`);
+}
@@ -0,0 +1,234 @@
+import fs from 'fs';
+import path from 'path';
+import dns from 'dns';
+import net from 'net';
+import { Agent } from 'undici';
+import { v4 as uuidv4 } from 'uuid';
+import { config } from '../config.js';
+
+export interface FetchedDocument {
+  path: string;
+  originalname: string;
+}
+
+// Content types we accept from a remote URL → file extension used by the parse pipeline
+const CONTENT_TYPE_EXTENSIONS: Record<string, string> = {
+  'application/pdf': '.pdf',
+  'image/jpeg': '.jpg',
+  'image/png': '.png',
+  'image/webp': '.webp',
+  'text/html': '.html',
+  'application/xhtml+xml': '.html',
+  'text/plain': '.txt',
+  'text/csv': '.csv',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': '.docx',
+};
+
+/**
+ * Work out the document type from its leading bytes.
+ * Servers frequently send PDFs and images as application/octet-stream.
+ */
+function sniffExtension(buf: Buffer): string | null {
+  if (buf.subarray(0, 5).toString('latin1') === '%PDF-') return '.pdf';
+  if (buf[0] === 0xff && buf[1] === 0xd8 && buf[2] === 0xff) return '.jpg';
+  if (buf.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) return '.png';
+  if (buf.subarray(0, 4).toString('latin1') === 'RIFF' && buf.subarray(8, 12).toString('latin1') === 'WEBP') return '.webp';
+  const head = buf.subarray(0, 512).toString('utf-8').trimStart().toLowerCase();
+  if (head.startsWith('<!doctype html') || head.startsWith('<html')) return '.html';
+  return null;
+}
+
+// ── Destination check ──────────────────────────────────────────
+// The server fetches whatever URL a user gives it, so it must not be pointed at itself, the
+// cloud metadata service (169.254.169.254) or anything else on the private network.
+const MAX_REDIRECTS = 5;
+const REDIRECT_STATUSES = new Set([301, 302, 303, 307, 308]);
+
+const BLOCKED_ADDRESSES = new net.BlockList();
+for (const [prefix, bits] of [
+  ['0.0.0.0', 8], // "this network"
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10], // carrier-grade NAT
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16], // link-local, including cloud metadata
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15], // benchmarking
+  ['224.0.0.0', 3], // multicast and reserved, up to 255.255.255.255
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(prefix, bits, 'ipv4');
+}
+for (const [prefix, bits] of [
+  ['::', 127], // unspecified and loopback
+  ['fc00::', 7], // unique local, including fd00:ec2::254 metadata
+  ['fe80::', 10], // link-local
+  ['ff00::', 8], // multicast
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(prefix, bits, 'ipv6');
+}
+
+// An IPv4 address written as IPv6: ::ffff:127.0.0.1, or ::ffff:7f00:1 as URL parsing normalises it
+function mappedIPv4(address: string): string | null {
+  const dotted = address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i);
+  if (dotted) return dotted[1];
+  const hex = address.match(/^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/i);
+  if (!hex) return null;
+  const [high, low] = [parseInt(hex[1], 16), parseInt(hex[2], 16)];
+  return [high >> 8, high & 0xff, low >> 8, low & 0xff].join('.');
+}
+
+function isBlockedAddress(address: string): boolean {
+  const mapped = mappedIPv4(address);
+  if (mapped) return BLOCKED_ADDRESSES.check(mapped, 'ipv4');
+  return BLOCKED_ADDRESSES.check(address, net.isIPv6(address) ? 'ipv6' : 'ipv4');
+}
+
+const PRIVATE_HOST_ERROR = 'URLs on localhost or a private network are not allowed';
+
+// The system resolver, refusing hosts with a private address. It runs as the connection is made,
+// so the address checked is the one connected to: a second DNS answer can't swap in another.
+// Connections ask for every address (`all`) when they try IPv6 and IPv4 side by side.
+function publicLookup(
+  hostname: string,
+  options: dns.LookupOptions,
+  callback: (err: Error | null, address: string | dns.LookupAddress[], family?: number) => void
+): void {
+  dns.lookup(hostname, { ...options, all: true, verbatim: true }, (err, addresses) => {
+    if (err) return callback(err, []);
+    if (addresses.some(a => isBlockedAddress(a.address))) return callback(new Error(PRIVATE_HOST_ERROR), []);
+    if (options.all) return callback(null, addresses);
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+}
+
+const publicOnly = new Agent({ connect: { lookup: publicLookup } });
+
+/** Throw unless `url` is http(s) and not a private IP address; host names are checked on connecting. */
+function assertFetchable(url: URL): void {
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new Error('Only http and https URLs are supported');
+  }
+  const host = url.hostname.replace(/^\[|\]$/g, ''); // IPv6 literals come bracketed
+  if (!config.urlFetchAllowPrivate && net.isIP(host) && isBlockedAddress(host)) {
+    throw new Error(PRIVATE_HOST_ERROR);
+  }
+}
+
+// fetch() reports connection failures as "fetch failed"; surface a refused or unknown host instead
+async function fetchPublic(url: URL, init: RequestInit): Promise<Response> {
+  try {
+    const pinned: RequestInit & { dispatcher?: Agent } = config.urlFetchAllowPrivate ? init : { ...init, dispatcher: publicOnly };
+    return await fetch(url, pinned);
+  } catch (err) {
+    const cause = (err as { cause?: NodeJS.ErrnoException }).cause;
+    if (cause?.message === PRIVATE_HOST_ERROR) throw cause;
+    if (cause?.code === 'ENOTFOUND') throw new Error(`Could not resolve ${url.hostname}`);
+    throw err;
+  }
+}
+
+/** fetch(), following redirects by hand so each hop's destination is checked before it is requested. */
+async function fetchChecked(start: URL, init: RequestInit): Promise<{ response: Response; url: URL }> {
+  let url = start;
+  for (let hop = 0; ; hop++) {
+    assertFetchable(url);
+    const response = await fetchPublic(url, { ...init, redirect: 'manual' });
+    const location = response.headers.get('location');
+    if (!REDIRECT_STATUSES.has(response.status) || !location) return { response, url };
+    await response.body?.cancel();
+    if (hop === MAX_REDIRECTS) throw new Error(`Fetching the wine list failed: more than ${MAX_REDIRECTS} redirects`);
+    url = new URL(location, url);
+  }
+}
+
+function documentName(url: URL, ext: string): string {
+  let lastSegment = url.pathname.split('/').filter(Boolean).pop() ?? '';
+  try {
+    lastSegment = decodeURIComponent(lastSegment);
+  } catch {
+    // A malformed escape such as %E0: keep the name as it was written
+  }
+  const base = lastSegment ? lastSegment.replace(/\.[a-z0-9]+$/i, '') : url.hostname;
+  return `${base}${ext}`;
+}
+
+async function readWithLimit(response: Response, maxBytes: number): Promise<Buffer> {
+  if (!response.body) return Buffer.alloc(0);
+
+  const reader = response.body.getReader();
+  const chunks: Buffer[] = [];
+  let total = 0;
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    total += value.byteLength;
+    if (total > maxBytes) {
+      await reader.cancel();
+      throw new Error(`Document is larger than ${config.maxFileSizeMB}MB`);
+    }
+    chunks.push(Buffer.from(value));
+  }
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Download a wine list from a URL into the uploads directory so it can go through the
+ * same parse pipeline as a file upload. Enforces the upload size limit and a fetch timeout,
+ * only accepts PDFs, images and text-like documents, and refuses private-network hosts
+ * (unless URL_FETCH_ALLOW_PRIVATE is set) at every redirect.
+ */
+export async function fetchWineListDocument(rawUrl: string): Promise<FetchedDocument> {
+  let url: URL;
+  try {
+    url = new URL(rawUrl);
+  } catch {
+    throw new Error('Invalid URL');
+  }
+
+  const maxBytes = config.maxFileSizeMB * 1024 * 1024;
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), config.urlFetchTimeoutMs);
+
+  try {
+    const { response, url: finalUrl } = await fetchChecked(url, {
+      headers: { 'Accept': Object.keys(CONTENT_TYPE_EXTENSIONS).join(', ') },
+      signal: controller.signal,
+    });
+
+    if (!response.ok) {
+      throw new Error(`Fetching the wine list failed: HTTP ${response.status}`);
+    }
+
+    const declaredLength = parseInt(response.headers.get('content-length') || '', 10);
+    if (!isNaN(declaredLength) && declaredLength > maxBytes) {
+      throw new Error(`Document is larger than ${config.maxFileSizeMB}MB`);
+    }
+
+    const contentType = (response.headers.get('content-type') || '').split(';')[0].trim().toLowerCase();
+    const buffer = await readWithLimit(response, maxBytes);
+    if (buffer.length === 0) {
+      throw new Error('The URL returned an empty document');
+    }
+
+    const ext = CONTENT_TYPE_EXTENSIONS[contentType] ?? sniffExtension(buffer);
+    if (!ext) {
+      throw new Error(`Unsupported content type: ${contentType || 'unknown'}. Link to a PDF, image, or web page.`);
+    }
+
+    fs.mkdirSync(config.uploadsDir, { recursive: true });
+    const filePath = path.join(config.uploadsDir, `${uuidv4()}${ext}`);
+    fs.writeFileSync(filePath, buffer);
+    console.log(`Fetched ${buffer.length} bytes (${contentType || 'sniffed ' + ext}) from ${finalUrl.href}`);
+
+    return { path: filePath, originalname: documentName(url, ext) };
+  } catch (err) {
+    if ((err as Error).name === 'AbortError') {
+      throw new Error(`Fetching the wine list timed out after ${config.urlFetchTimeoutMs / 1000}s`);
+    }
+    throw err;
+  } finally {
+    clearTimeout(timeout);
+  }
+}
@@ -1,36 +1,247 @@
-export function calculateMarkup(restaurantPrice: number, retailPrice: number): number {
-  return ((restaurantPrice - retailPrice) / retailPrice) * 100;
+import type { PriorBasis, SessionData, WineValueResult } from '../types/wine.js';
+import { convertPrice } from './currency.js';
+import { STANDARD_BOTTLE_ML } from '../utils/bottle-format.js';
+
+/**
+ * Scale a standard-bottle retail price to the listed format (half bottle, magnum, carafe, glass pour).
+ */
+export function retailPriceForFormat(retailPrice: number, bottleSizeMl: number = STANDARD_BOTTLE_ML): number {
+  return retailPrice * (bottleSizeMl / STANDARD_BOTTLE_ML);
 }
 
-export function calculateValueScore(
+export function calculateMarkup(
   restaurantPrice: number,
-  retailPriceAvg: number | null,
+  retailPrice: number,
+  bottleSizeMl: number = STANDARD_BOTTLE_ML
+): number {
+  const retailForFormat = retailPriceForFormat(retailPrice, bottleSizeMl);
+  return ((restaurantPrice - retailForFormat) / retailForFormat) * 100;
+}
+
+// ── Value model ────────────────────────────────────────────────
+// How quality and markup combine into a value score. Scoring profiles (scoring-profiles.ts) are named models.
+export interface ScoringModel {
+  criticWeight: number; // relative weights when a wine has both scores, before adjusting for confidence
+  communityWeight: number;
+  communityPriorReviews: number; // how many reviews the prior counts as when shrinking a community score
+  markupExponent: number; // value = quality / markupRatio^exponent — 1 is linear, higher punishes markup harder
+  qualityFloor: number; // wines whose quality is below this score 0, however cheap
+}
+
+// The original model: 40% critic / 60% community, quality divided by the markup ratio
+export const DEFAULT_SCORING_MODEL: ScoringModel = {
+  criticWeight: 0.4,
+  communityWeight: 0.6,
+  communityPriorReviews: 5,
+  markupExponent: 1,
+  qualityFloor: 0,
+};
+
+// ── Quality estimate ───────────────────────────────────────────
+// A community score is the average of its reviews, so with few reviews it says little: it is shrunk
+// toward a prior (what similar wines score) by `communityPriorReviews` pseudo-reviews. Critic and
+// community scores are then blended with the profile's weights scaled by how sure each one is.
+// Uncertainties are standard deviations in points.
+const REVIEW_SD = 3; // spread of individual CellarTracker ratings around a wine's true average
+const UNKNOWN_REVIEW_COUNT = 3; // a community score reported without a count is treated as this many reviews
+const CRITIC_SD = 2; // how far a critic score is from the wine's quality
+const SCALE_SD = 1.5; // critics and drinkers disagree systematically, however many reviews there are
+
+export interface QualityEstimate {
+  quality: number;
+  uncertainty: number;
+  criticShare: number; // 0–1: how much of `quality` comes from the critic score
+  community: { adjusted: number; reviewsCounted: number; uncertainty: number } | null; // after shrinking
+}
+
+export interface CommunityPrior {
+  prior: number;
+  basis: PriorBasis;
+}
+
+// Community score prior when the list has too few reviewed wines from the same region:
+// typical CellarTracker averages by retail price band (USD per 750ml)
+const PRICE_BAND_PRIORS: [maxUsd: number, prior: number][] = [
+  [15, 86],
+  [30, 87.5],
+  [60, 89],
+  [120, 90.5],
+  [Infinity, 92],
+];
+const DEFAULT_PRIOR = 88;
+const MIN_REGION_PEERS = 3;
+const MIN_PEER_REVIEWS = 10;
+
+/**
+ * What a wine's community score is expected to be before its own reviews are counted: the average of
+ * well-reviewed wines from the same region on the list, or else the typical score for its price band.
+ */
+export function communityPrior(wine: WineValueResult, session: Pick<SessionData, 'wines' | 'currency'>): CommunityPrior {
+  const region = wine.region.trim().toLowerCase();
+  if (region) {
+    const peers = session.wines.filter(w =>
+      w !== wine &&
+      w.region.trim().toLowerCase() === region &&
+      w.communityScore !== null &&
+      (w.communityReviewCount ?? 0) >= MIN_PEER_REVIEWS
+    );
+    if (peers.length >= MIN_REGION_PEERS) {
+      return { prior: peers.reduce((sum, w) => sum + w.communityScore!, 0) / peers.length, basis: 'region' };
+    }
+  }
+
+  if (!wine.retailPriceAvg) return { prior: DEFAULT_PRIOR, basis: 'default' };
+  const usd = convertPrice(wine.retailPriceAvg, session.currency, 'USD') ?? wine.retailPriceAvg;
+  return { prior: PRICE_BAND_PRIORS.find(([maxUsd]) => usd < maxUsd)![1], basis: 'price band' };
+}
+
+/** Combined quality estimate from whichever scores a wine has, or null with neither. */
+export function estimateQuality(
   criticScore: number | null,
-  communityScore: number | null
-): number | null {
-  if (!retailPriceAvg) return null;
-
-  // Combine critic and community scores
-  // Weight: 40% critic, 60% community
-  let qualityScore: number | null = null;
-
-  if (criticScore !== null && communityScore !== null) {
-    qualityScore = criticScore * 0.4 + communityScore * 0.6;
-  } else if (criticScore !== null) {
-    qualityScore = criticScore;
-  } else if (communityScore !== null) {
-    qualityScore = communityScore;
+  communityScore: number | null,
+  communityReviewCount: number | null,
+  prior: number,
+  model: ScoringModel = DEFAULT_SCORING_MODEL
+): QualityEstimate | null {
+  let community: QualityEstimate['community'] = null;
+  if (communityScore !== null) {
+    const reviews = communityReviewCount ?? UNKNOWN_REVIEW_COUNT;
+    const weight = reviews + model.communityPriorReviews;
+    community = weight > 0
+      ? { adjusted: (reviews * communityScore + model.communityPriorReviews * prior) / weight, reviewsCounted: reviews, uncertainty: REVIEW_SD / Math.sqrt(weight) }
+      : { adjusted: communityScore, reviewsCounted: reviews, uncertainty: REVIEW_SD };
   }
 
-  if (qualityScore === null) return null;
+  if (criticScore === null && community === null) return null;
+  if (community === null) return { quality: criticScore!, uncertainty: CRITIC_SD, criticShare: 1, community };
+  if (criticScore === null) return { quality: community.adjusted, uncertainty: community.uncertainty, criticShare: 0, community };
+
+  // Each side's error also includes the critic/drinker disagreement, so a huge review count
+  // can't drown the critics out entirely
+  const criticVar = CRITIC_SD ** 2;
+  const communityVar = community.uncertainty ** 2 + SCALE_SD ** 2;
+  const wc = model.criticWeight / criticVar;
+  const wm = model.communityWeight / communityVar;
+  return {
+    quality: (wc * criticScore + wm * community.adjusted) / (wc + wm),
+    uncertainty: Math.sqrt(wc ** 2 * criticVar + wm ** 2 * communityVar) / (wc + wm),
+    criticShare: wc / (wc + wm),
+    community,
+  };
+}
+
+// ── Value score ────────────────────────────────────────────────
+interface ValueCalculation {
+  retailForFormat: number;
+  markupRatio: number;
+  belowFloor: boolean;
+  rawScore: number; // before rounding and clamping to 0–100
+  clamped: 'min' | 'max' | null;
+  valueScore: number;
+}
 
-  // Markup ratio: restaurant price / retail price
+function computeValue(
+  restaurantPrice: number,
+  retailPriceAvg: number,
+  quality: QualityEstimate,
+  bottleSizeMl: number,
+  model: ScoringModel
+): ValueCalculation {
+  // Markup ratio: restaurant price / retail price for the same volume
   // Typical restaurant markup is 2-3x
-  const markupRatio = restaurantPrice / retailPriceAvg;
+  const retailForFormat = retailPriceForFormat(retailPriceAvg, bottleSizeMl);
+  const markupRatio = restaurantPrice / retailForFormat;
+  const belowFloor = quality.quality < model.qualityFloor;
 
-  // Value Score = Quality / Markup Ratio
+  // Value Score = Quality / Markup Ratio (linear model)
   // 90pt wine at 2x markup = 45 (decent), at 1.5x = 60 (great), at 3x = 30 (poor)
-  const valueScore = qualityScore / markupRatio;
+  const rawScore = belowFloor ? 0 : quality.quality / markupRatio ** model.markupExponent;
+  const rounded = Math.round(rawScore);
+  const valueScore = Math.min(100, Math.max(0, rounded));
+  const clamped = valueScore > rounded ? 'min' : valueScore < rounded ? 'max' : null;
+  return { retailForFormat, markupRatio, belowFloor, rawScore, clamped, valueScore };
+}
+
+export function calculateValueScore(
+  restaurantPrice: number,
+  retailPriceAvg: number | null,
+  quality: QualityEstimate | null,
+  bottleSizeMl: number = STANDARD_BOTTLE_ML,
+  model: ScoringModel = DEFAULT_SCORING_MODEL
+): number | null {
+  if (!retailPriceAvg || !quality) return null;
+  return computeValue(restaurantPrice, retailPriceAvg, quality, bottleSizeMl, model).valueScore;
+}
+
+// ── Breakdown ──────────────────────────────────────────────────
+// Built from the same intermediate values as the score itself, so the two can't disagree
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+/**
+ * Recompute a wine's quality estimate, markup and value score (with its breakdown, see ScoreBreakdown)
+ * from the data it already has — after a lookup, or when the scoring model changes. `session`
+ * supplies the wine's neighbours on the list, for the community score prior.
+ */
+export function scoreWine(
+  wine: WineValueResult,
+  model: ScoringModel & { name?: string },
+  session: Pick<SessionData, 'wines' | 'currency'>
+): void {
+  const { prior, basis } = communityPrior(wine, session);
+  const estimate = estimateQuality(wine.criticScore, wine.communityScore, wine.communityReviewCount, prior, model);
+  wine.qualityEstimate = estimate ? Math.round(estimate.quality * 10) / 10 : null;
+  wine.qualityUncertainty = estimate ? Math.round(estimate.uncertainty * 10) / 10 : null;
+
+  wine.markupPercent = wine.retailPriceAvg
+    ? Math.round(calculateMarkup(wine.restaurantPrice, wine.retailPriceAvg, wine.bottleSizeMl))
+    : null;
+
+  const value = wine.retailPriceAvg && estimate
+    ? computeValue(wine.restaurantPrice, wine.retailPriceAvg, estimate, wine.bottleSizeMl, model)
+    : null;
+  wine.valueScore = value?.valueScore ?? null;
+  wine.scoreBreakdown = value && estimate && wine.retailPriceAvg
+    ? {
+        profile: model.name ?? null,
+        critic: wine.criticScore !== null
+          ? { score: wine.criticScore, source: wine.fieldSources.criticScore ?? null, uncertainty: CRITIC_SD }
+          : null,
+        community: wine.communityScore !== null && estimate.community
+          ? {
+              score: wine.communityScore,
+              source: wine.fieldSources.communityScore ?? null,
+              reviewCount: wine.communityReviewCount,
+              reviewsCounted: estimate.community.reviewsCounted,
+              prior: round2(prior),
+              priorBasis: basis,
+              priorReviews: model.communityPriorReviews,
+              adjusted: round2(estimate.community.adjusted),
+              uncertainty: round2(estimate.community.uncertainty),
+            }
+          : null,
+        weights: { critic: model.criticWeight, community: model.communityWeight },
+        criticShare: round2(estimate.criticShare),
+        quality: round2(estimate.quality),
+        qualityUncertainty: round2(estimate.uncertainty),
+        qualityFloor: model.qualityFloor,
+        belowFloor: value.belowFloor,
+        restaurantPrice: wine.restaurantPrice,
+        bottleSizeMl: wine.bottleSizeMl,
+        retailPrice: wine.retailPriceAvg,
+        retailSource: wine.fieldSources.retailPriceAvg ?? null,
+        retailForFormat: round2(value.retailForFormat),
+        markupRatio: round2(value.markupRatio),
+        markupExponent: model.markupExponent,
+        rawScore: round2(value.rawScore),
+        clamped: value.clamped,
+        valueScore: value.valueScore,
+      }
+    : null;
+}
 
-  return Math.min(100, Math.max(0, Math.round(valueScore)));
+// What a lookup came back with: 'found' if there's enough for a value score
+export function lookupStatusFor(wine: WineValueResult): WineValueResult['lookupStatus'] {
+  if (wine.valueScore !== null) return 'found';
+  if (wine.retailPriceAvg || wine.criticScore || wine.communityScore) return 'partial';
+  return 'not_found';
 }
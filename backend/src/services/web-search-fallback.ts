@@ -1,11 +1,15 @@
 import Anthropic from '@anthropic-ai/sdk';
 import { config } from '../config.js';
+import { anthropicScheduler } from '../utils/request-scheduler.js';
 import { buildSearchName, expandProducerName } from '../utils/wine-name-utils.js';
-import type { WineValueResult } from '../types/wine.js';
+import type { LookupProvider, LookupQuery } from './lookup-providers.js';
+import { convertPrice, currencyName, normalizeCurrency } from './currency.js';
+import { hasAnthropicBudget, recordAnthropicUsage } from './api-usage.js';
 
 const client = new Anthropic({
   apiKey: config.anthropicApiKey,
   timeout: 5 * 60 * 1000, // 5 min timeout
+  maxRetries: 0, // retries go through the request scheduler
 });
 
 export interface WebSearchFallbackResult {
@@ -24,29 +28,45 @@ const NULL_RESULT: WebSearchFallbackResult = {
   communityReviewCount: null,
 };
 
+// Convert the prices the search reported into the menu's currency. Without a rate the prices
+// can't be used, so they come back null.
+function inMenuCurrency(
+  found: WebSearchFallbackResult & { priceCurrency?: string },
+  currency: string,
+  wineName: string
+): WebSearchFallbackResult {
+  const { priceCurrency, ...result } = found;
+  const from = normalizeCurrency(priceCurrency) ?? currency;
+  const convert = (price: number | null) => {
+    if (typeof price !== 'number') return null;
+    const converted = convertPrice(price, from, currency);
+    return converted === null ? null : Math.round(converted);
+  };
+  if (from !== currency) {
+    console.log(`    [Fallback] Converting prices for "${wineName}" from ${from} to ${currency}`);
+  }
+  return { ...result, retailPriceAvg: convert(result.retailPriceAvg), retailPriceMin: convert(result.retailPriceMin) };
+}
+
 /**
- * Full web search fallback — used when Wine-Searcher API is unavailable.
+ * Full web search fallback — fills whatever higher-priority providers couldn't (see lookup-providers.ts).
  * Improved prompt with strict vintage verification.
+ * Rejects if the request fails (after the scheduler's retries), so the miss isn't cached as "not found".
  */
 export async function lookupViaWebSearch(
-  wine: WineValueResult,
-  currency: string
+  wine: LookupQuery,
+  currency: string,
+  signal?: AbortSignal
 ): Promise<WebSearchFallbackResult> {
+  // Offline mode (fixture parser, no key) — skip rather than fail every request
+  if (!config.anthropicApiKey) return NULL_RESULT;
+
   const vintageStr = wine.vintage ?? 'NV';
   const producer = wine.producer || '';
   const expandedProducer = expandProducerName(producer);
   const searchName = buildSearchName(wine.name, producer);
 
-  const currencyLabel = currency === 'GBP' ? 'British Pounds (GBP/£)'
-    : currency === 'EUR' ? 'Euros (EUR/€)'
-    : currency === 'AUD' ? 'Australian Dollars (AUD/A$)'
-    : 'US Dollars (USD/$)';
-
-  const conversionNote = currency === 'GBP'
-    ? 'If prices are in USD, convert to GBP (1 USD ≈ 0.79 GBP). If in EUR, convert (1 EUR ≈ 0.84 GBP).'
-    : currency === 'EUR'
-    ? 'If prices are in USD, convert to EUR (1 USD ≈ 0.92 EUR). If in GBP, convert (1 GBP ≈ 1.19 EUR).'
-    : '';
+  const currencyLabel = `${currencyName(currency)} (${currency})`;
 
   const prompt = `Find retail price and critic ratings for this wine using web search.
 
@@ -76,11 +96,11 @@ BEFORE returning JSON, verify:
 - Is the price the AVERAGE retail price ex-tax, not auction or restaurant?
 - Is the critic score the aggregated score, not a single review?
 
-${conversionNote}
-Prices should be in ${currencyLabel}. Round to the nearest whole number.
+Prefer prices listed in ${currencyLabel}. Report prices exactly as listed — do NOT convert them —
+and give the ISO code of the currency they are listed in as priceCurrency.
 
 Return ONLY a JSON object, no explanation:
-{"retailPriceAvg": <number or null>, "retailPriceMin": <number or null>, "criticScore": <number 0-100 or null>, "communityScore": <number 0-100 or null>, "communityReviewCount": <number or null>}`;
+{"retailPriceAvg": <number or null>, "retailPriceMin": <number or null>, "priceCurrency": "<ISO code, e.g. USD>", "criticScore": <number 0-100 or null>, "communityScore": <number 0-100 or null>, "communityReviewCount": <number or null>}`;
 
   // Build user location for currency-appropriate results
   const userLocation = currency === 'GBP'
@@ -91,60 +111,78 @@ Return ONLY a JSON object, no explanation:
     ? { type: 'approximate', country: 'AU', region: 'New South Wales', city: 'Sydney' }
     : { type: 'approximate', country: 'US', region: 'New York', city: 'New York' };
 
-  try {
-    const requestBody: any = {
-      model: 'claude-sonnet-4-20250514',
-      max_tokens: 2048,
-      messages: [{ role: 'user', content: prompt }],
-      tools: [
-        {
-          type: 'web_search_20250305',
-          name: 'web_search',
-          max_uses: 5,
-          user_location: userLocation,
-        },
-      ],
-    };
-
-    let response = await client.messages.create(requestBody);
-
-    // Handle pause_turn
-    let attempts = 0;
-    while ((response.stop_reason as string) === 'pause_turn' && attempts < 5) {
-      attempts++;
-      console.log(`    [Fallback] pause_turn for "${wine.name}", continuing (attempt ${attempts})...`);
-      requestBody.messages = [
-        { role: 'user', content: prompt },
-        { role: 'assistant', content: response.content },
-        { role: 'user', content: 'Please continue and provide the JSON result.' },
-      ];
-      response = await client.messages.create(requestBody);
-    }
+  const requestBody: any = {
+    model: 'claude-sonnet-4-20250514',
+    max_tokens: 2048,
+    messages: [{ role: 'user', content: prompt }],
+    tools: [
+      {
+        type: 'web_search_20250305',
+        name: 'web_search',
+        max_uses: 5,
+        user_location: userLocation,
+      },
+    ],
+  };
+
+  let response = await anthropicScheduler.run(() => client.messages.create(requestBody, { signal }), { signal });
+  recordAnthropicUsage(response.usage, wine.usage);
+
+  // Handle pause_turn
+  let attempts = 0;
+  while ((response.stop_reason as string) === 'pause_turn' && attempts < 5) {
+    attempts++;
+    console.log(`    [Fallback] pause_turn for "${wine.name}", continuing (attempt ${attempts})...`);
+    requestBody.messages = [
+      { role: 'user', content: prompt },
+      { role: 'assistant', content: response.content },
+      { role: 'user', content: 'Please continue and provide the JSON result.' },
+    ];
+    response = await anthropicScheduler.run(() => client.messages.create(requestBody, { signal }), { signal });
+    recordAnthropicUsage(response.usage, wine.usage);
+  }
 
-    // Extract JSON from response
-    const textBlocks = response.content.filter((b: any) => b.type === 'text');
+  // Extract JSON from response
+  const textBlocks = response.content.filter((b: any) => b.type === 'text');
 
-    for (const block of [...textBlocks].reverse()) {
-      if (block.type !== 'text') continue;
-      let str = block.text.trim();
+  for (const block of [...textBlocks].reverse()) {
+    if (block.type !== 'text') continue;
+    let str = block.text.trim();
 
-      if (str.startsWith('```')) {
-        str = str.replace(/^```(?:json)?\s*\n?/, '').replace(/\n?```\s*$/, '');
-      }
+    if (str.startsWith('```')) {
+      str = str.replace(/^```(?:json)?\s*\n?/, '').replace(/\n?```\s*$/, '');
+    }
 
-      const firstBrace = str.indexOf('{');
-      const lastBrace = str.lastIndexOf('}');
-      if (firstBrace !== -1 && lastBrace > firstBrace) {
-        try {
-          return JSON.parse(str.substring(firstBrace, lastBrace + 1));
-        } catch { /* try next block */ }
+    const firstBrace = str.indexOf('{');
+    const lastBrace = str.lastIndexOf('}');
+    if (firstBrace !== -1 && lastBrace > firstBrace) {
+      let parsed: WebSearchFallbackResult & { priceCurrency?: string };
+      try {
+        parsed = JSON.parse(str.substring(firstBrace, lastBrace + 1));
+      } catch {
+        continue; // try next block
       }
+      return inMenuCurrency(parsed, currency, wine.name);
     }
-
-    console.log(`    [Fallback] No valid JSON for "${wine.name}", returning nulls`);
-    return NULL_RESULT;
-  } catch (err) {
-    console.error(`  [Fallback] Error for "${wine.name}":`, (err as Error).message);
-    return NULL_RESULT;
   }
+
+  console.log(`    [Fallback] No valid JSON for "${wine.name}", returning nulls`);
+  return NULL_RESULT;
 }
+
+export const webSearchProvider: LookupProvider = {
+  name: 'web-search',
+  fields: ['retailPriceAvg', 'retailPriceMin', 'criticScore', 'communityScore'],
+  // Each call is a paid Anthropic web search, so by default it only runs when no one else found a price
+  // (then fills every gap it can); WEB_SEARCH_FILL_GAPS=1 also runs it for a missing score
+  triggers: config.webSearchFillGaps ? undefined : ['retailPriceAvg'],
+  isAvailable: () => Boolean(config.anthropicApiKey),
+  async lookup(wine, currency, signal) {
+    // Out of token budget: no answer, so nothing is cached as "not found"
+    if (!hasAnthropicBudget(wine.usage)) {
+      console.log(`  [Fallback] Token budget used up, skipping "${wine.name}"`);
+      return {};
+    }
+    return lookupViaWebSearch(wine, currency, signal);
+  },
+};
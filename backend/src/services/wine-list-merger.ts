@@ -0,0 +1,52 @@
+import type { ParsedWine } from '../types/wine.js';
+import { normalizeWineName } from './wine-matcher.js';
+
+/**
+ * Identity of a menu entry for de-duplication purposes.
+ * Overlapping photos of the same page produce the same wine twice; a wine listed
+ * at two different prices (e.g. on two lists) is kept as two separate entries.
+ */
+function dedupeKey(wine: ParsedWine): string {
+  const name = normalizeWineName(wine.name).toLowerCase();
+  const vintage = wine.vintage ?? 'nv';
+  return `${name}|${vintage}|${wine.restaurantPrice}`;
+}
+
+/** The incoming wines that aren't already in the list. */
+export function winesNotIn<T extends ParsedWine>(existing: T[], incoming: T[]): T[] {
+  const keys = new Set(existing.map(dedupeKey));
+  return incoming.filter(wine => !keys.has(dedupeKey(wine)));
+}
+
+/**
+ * Merge newly parsed wines into an existing list, dropping duplicates.
+ * Duplicates within the incoming batch keep the higher-confidence extraction;
+ * wines already in the list are never replaced, so their lookup data survives.
+ */
+export function mergeParsedWines<T extends ParsedWine>(existing: T[], incoming: T[]): T[] {
+  const merged = [...existing];
+  const indexByKey = new Map<string, number>();
+  merged.forEach((w, i) => indexByKey.set(dedupeKey(w), i));
+
+  let duplicates = 0;
+  for (const wine of incoming) {
+    const key = dedupeKey(wine);
+    const existingIdx = indexByKey.get(key);
+    if (existingIdx === undefined) {
+      indexByKey.set(key, merged.length);
+      merged.push(wine);
+      continue;
+    }
+
+    duplicates++;
+    const current = merged[existingIdx];
+    if (existingIdx >= existing.length && wine.confidence > current.confidence) {
+      merged[existingIdx] = wine;
+    }
+  }
+
+  if (duplicates > 0) {
+    console.log(`  Merged wine lists: dropped ${duplicates} duplicate entries`);
+  }
+  return merged;
+}
@@ -0,0 +1,90 @@
+import fs from 'fs';
+import path from 'path';
+import { config } from '../config.js';
+import type { ParsedWine, ParseFailure, RejectedWine } from '../types/wine.js';
+import { extractText, isTextDocument } from '../utils/text-extractor.js';
+import { claudeParser } from './claude-parser.js';
+import { createFixtureParser, createRecordingParser } from './fixture-parser.js';
+
+// ── Types ──────────────────────────────────────────────────────
+export type ImageMediaType = 'image/jpeg' | 'image/png' | 'image/gif' | 'image/webp';
+
+export type ParseInput =
+  | { kind: 'pdf'; data: Buffer }
+  | { kind: 'image'; mediaType: ImageMediaType; data: Buffer }
+  | { kind: 'text'; format: string; text: string };
+
+export interface ParseResult {
+  currency: string;
+  wines: ParsedWine[];
+  truncated?: boolean; // response hit max_tokens — wines after the cut-off are missing
+  failures?: ParseFailure[];
+  rejected?: RejectedWine[]; // entries that failed schema validation (see wine-schema.ts)
+}
+
+/**
+ * Receives each wine as soon as a provider has extracted it, along with the menu currency
+ * if the provider has determined it yet.
+ */
+export type WineHandler = (wine: ParsedWine, currency: string | null) => void;
+
+/**
+ * A provider that turns a wine list document into structured wines.
+ * Implementations: Claude (live), fixture (replays recorded results, works offline).
+ * Providers that can stream call `onWine` for each wine before resolving; the result still holds every wine.
+ * Provider output is untrusted — parseDocument validates every wine before it reaches a session.
+ */
+export interface WineListParser {
+  readonly name: string;
+  parse(input: ParseInput, onWine?: WineHandler): Promise<ParseResult>;
+}
+
+const MIME_MAP: Record<string, ImageMediaType> = {
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+  '.webp': 'image/webp',
+};
+
+/**
+ * Read an uploaded file into the provider-neutral input shape.
+ * Text-like documents (Word, HTML, plain text, unmapped CSV) are sent as extracted text, not the file.
+ */
+export async function readParseInput(filePath: string): Promise<ParseInput> {
+  const ext = path.extname(filePath).toLowerCase();
+
+  if (isTextDocument(filePath)) {
+    return { kind: 'text', format: ext.slice(1).toUpperCase(), text: await extractText(filePath) };
+  }
+  if (ext === '.pdf') {
+    return { kind: 'pdf', data: fs.readFileSync(filePath) };
+  }
+
+  const mediaType = MIME_MAP[ext];
+  if (!mediaType) {
+    throw new Error(`Unsupported file type: ${ext}`);
+  }
+  return { kind: 'image', mediaType, data: fs.readFileSync(filePath) };
+}
+
+// ── Provider selection ─────────────────────────────────────────
+let activeParser: WineListParser | null = null;
+
+/**
+ * The parser selected by PARSER_PROVIDER. With PARSER_RECORD set, live results are also
+ * written to the fixtures directory so they can be replayed offline later.
+ */
+export function getWineListParser(): WineListParser {
+  if (activeParser) return activeParser;
+
+  if (config.parserProvider === 'fixture') {
+    activeParser = createFixtureParser(config.parserFixturesDir);
+  } else {
+    activeParser = config.parserRecord
+      ? createRecordingParser(claudeParser, config.parserFixturesDir)
+      : claudeParser;
+  }
+
+  console.log(`Wine list parser: ${activeParser.name}`);
+  return activeParser;
+}
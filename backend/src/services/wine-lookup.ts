@@ -1,7 +1,7 @@
-import type { WineValueResult } from '../types/wine.js';
-import { lookupViaWineSearcherApi, getRemainingApiCalls } from './wine-searcher-api.js';
-import { lookupCommunityScore } from './community-lookup.js';
-import { lookupViaWebSearch } from './web-search-fallback.js';
+import type { ApiUsage, FieldSources, MatchCandidate, SessionData, WineIdentity, WineMatch } from '../types/wine.js';
+import { getUsageStatus, type UsageStatus } from './api-usage.js';
+import { getLookupProviders, LOOKUP_FIELDS, type LookupField, type LookupProvider, type LookupQuery } from './lookup-providers.js';
+import { readCachedLookup, writeCachedLookup, getCacheStats, getMatchChoice, type CachedLookup } from './lookup-cache.js';
 
 // ── Types ──────────────────────────────────────────────────────
 export interface WineLookupData {
@@ -10,118 +10,171 @@ export interface WineLookupData {
   criticScore: number | null;
   communityScore: number | null;
   communityReviewCount: number | null;
-  dataSource?: 'api' | 'web_search' | 'mixed';
+  fieldSources: FieldSources;
+  matchCandidates?: MatchCandidate[]; // only set when a provider reported on ambiguity
+  match?: WineMatch;
 }
 
-// ── In-memory cache ─────────────────────────────────────────────
-const lookupCache = new Map<string, { data: WineLookupData; ts: number }>();
-const CACHE_TTL = 24 * 60 * 60 * 1000; // 24 hours
+export interface LookupStatus extends UsageStatus {
+  cacheSize: number;
+  // For a session: what looking up its pending wines would take. Wines with every Wine-Searcher
+  // field fresh in the cache need no call; the retry pass can spend more.
+  estimate: { wines: number; wineSearcherCalls: number } | null;
+}
 
-function cacheKey(wine: WineValueResult, currency: string): string {
-  const name = wine.name.toLowerCase().trim();
-  const vintage = wine.vintage ?? 'nv';
-  return `${name}|${vintage}|${currency}`;
+// Wine-Searcher calls looking these wines up would take: those without fresh cached data it supplies
+function estimateWineSearcherCalls(wines: WineIdentity[], currency: string): number {
+  const callFields = getLookupProviders().find(p => p.name === 'wine-searcher' && p.isAvailable())?.fields ?? [];
+  return wines.filter(wine => {
+    const { fresh } = readCachedLookup(wine, currency);
+    return callFields.some(f => !fresh.includes(f));
+  }).length;
 }
 
-function getCached(wine: WineValueResult, currency: string): WineLookupData | null {
-  const key = cacheKey(wine, currency);
-  const entry = lookupCache.get(key);
-  if (entry && Date.now() - entry.ts < CACHE_TTL) {
-    return entry.data;
+export function getLookupStatus(session?: SessionData): LookupStatus {
+  let estimate: LookupStatus['estimate'] = null;
+  if (session) {
+    const pending = session.wines.filter(w => w.lookupStatus === 'pending');
+    estimate = { wines: pending.length, wineSearcherCalls: estimateWineSearcherCalls(pending, session.currency) };
   }
-  if (entry) lookupCache.delete(key);
-  return null;
+  return {
+    ...getUsageStatus(session?.apiUsage),
+    cacheSize: getCacheStats().size,
+    estimate,
+  };
 }
 
-function setCache(wine: WineValueResult, currency: string, data: WineLookupData): void {
-  lookupCache.set(cacheKey(wine, currency), { data, ts: Date.now() });
+/**
+ * Whether looking these wines up would run past the session's API budget: more Wine-Searcher
+ * calls than are left, or no web search tokens left at all. The same test the client makes
+ * before starting a lookup, applied to wines parsed after it started.
+ */
+export function exceedsLookupBudget(session: SessionData, wines: WineIdentity[]): boolean {
+  const { wineSearcher, anthropic } = getUsageStatus(session.apiUsage);
+  const calls = estimateWineSearcherCalls(wines, session.currency);
+  return (calls > 0 && wineSearcher.remaining !== null && calls > wineSearcher.remaining) || anthropic.tokensRemaining === 0;
 }
 
-export function getCacheStats() {
-  return { size: lookupCache.size };
-}
+// ── Single wine lookup — orchestrator ───────────────────────────
+// Providers are consulted in configured priority order (LOOKUP_PROVIDERS); each field is taken from
+// the first provider that supplies it. Consecutive providers that would fill different fields run in
+// parallel (by default the Wine-Searcher API and the CellarTracker community search), and lookup
+// stops as soon as every field is covered, so later fallbacks only run for what is still missing.
+// Fields still fresh in the cache count as covered. Also returns the fields a provider answered
+// (found or definitively not found), which are the ones worth caching.
+async function lookupSingleWine(
+  wine: WineIdentity,
+  currency: string,
+  cached: CachedLookup,
+  providers: LookupProvider[],
+  signal?: AbortSignal,
+  usage?: ApiUsage
+): Promise<{ data: WineLookupData; answered: LookupField[] }> {
+  const result: WineLookupData = { ...cached.data, fieldSources: { ...cached.data.fieldSources } };
+  const missing = new Set<LookupField>(LOOKUP_FIELDS.filter(f => !cached.fresh.includes(f)));
+  const answered = new Set<LookupField>();
+  const query: LookupQuery = { ...wine, matchedName: getMatchChoice(wine), usage };
+  let queue = providers.filter(p => p.isAvailable());
+
+  while (missing.size > 0 && queue.length > 0) {
+    // Take the next run of providers whose still-missing fields don't overlap
+    const batch: LookupProvider[] = [];
+    const claimed = new Set<LookupField>();
+    let next = 0;
+    for (; next < queue.length; next++) {
+      const wanted = queue[next].fields.filter(f => missing.has(f));
+      if (wanted.some(f => claimed.has(f))) break;
+      // A provider with triggers is only worth its cost while one of those is missing
+      if (!(queue[next].triggers ?? wanted).some(f => missing.has(f))) continue;
+      wanted.forEach(f => claimed.add(f));
+      if (wanted.length > 0) batch.push(queue[next]);
+    }
+    queue = queue.slice(next);
+
+    const settled = await Promise.allSettled(batch.map(p => p.lookup(query, currency, signal)));
+    // Don't report (or cache) a cancelled lookup as "not found"
+    signal?.throwIfAborted();
+    settled.forEach((outcome, i) => {
+      const provider = batch[i];
+      if (outcome.status === 'rejected') {
+        console.error(`  [${provider.name}] Error for "${wine.name}":`, (outcome.reason as Error).message);
+        return;
+      }
+      if (outcome.value.candidates) result.matchCandidates = outcome.value.candidates;
+      if (outcome.value.match) result.match = outcome.value.match;
+      for (const field of provider.fields) {
+        const value = outcome.value[field];
+        if (!missing.has(field) || value === undefined) continue;
+        answered.add(field);
+        if (value === null) continue;
+        result[field] = value;
+        result.fieldSources[field] = provider.name;
+        missing.delete(field);
+        if (field === 'communityScore') {
+          result.communityReviewCount = outcome.value.communityReviewCount ?? null;
+        }
+      }
+    });
+  }
 
-export function clearWineCache(wine: WineValueResult, currency: string): void {
-  lookupCache.delete(cacheKey(wine, currency));
+  const sources = Object.entries(result.fieldSources).map(([field, name]) => `${field}←${name}`);
+  console.log(`  [Lookup] "${wine.name}" ${wine.vintage ?? 'NV'}: ${sources.length > 0 ? sources.join(', ') : 'nothing found'}`);
+  return { data: result, answered: [...answered] };
 }
 
-export function getLookupStatus(): { apiCallsRemaining: number; cacheSize: number } {
-  return {
-    apiCallsRemaining: getRemainingApiCalls(),
-    cacheSize: lookupCache.size,
-  };
+// ── Targeted lookup — one wine, on request ──────────────────────
+export interface WineLookupOptions {
+  providers?: LookupProvider[]; // only ask these (default: all, in LOOKUP_PROVIDERS order)
+  bypassCache?: boolean; // ignore cached values; fresh answers are still cached
+  signal?: AbortSignal;
+  usage?: ApiUsage; // the session's API usage, counted and limited along with the daily totals
 }
 
-// ── Single wine lookup — orchestrator ───────────────────────────
-// Strategy:
-// 1. Wine-Searcher API for price + critic (fast, accurate)
-// 2. In parallel: Claude web search for CellarTracker community score
-// 3. If API fails: Claude web search fallback for price + critic
-async function lookupSingleWine(wine: WineValueResult, currency: string): Promise<WineLookupData> {
-  // Run API call and community score lookup IN PARALLEL
-  const [apiResult, communityResult] = await Promise.allSettled([
-    lookupViaWineSearcherApi(wine.name, wine.producer, wine.vintage, currency),
-    lookupCommunityScore(wine.name, wine.producer, wine.vintage),
-  ]);
-
-  const apiData = apiResult.status === 'fulfilled' ? apiResult.value : null;
-  const communityData = communityResult.status === 'fulfilled' ? communityResult.value : null;
-
-  let result: WineLookupData = {
-    retailPriceAvg: null,
-    retailPriceMin: null,
-    criticScore: null,
-    communityScore: communityData?.communityScore ?? null,
-    communityReviewCount: communityData?.communityReviewCount ?? null,
-    dataSource: undefined,
-  };
-
-  if (apiData && apiData.status === 'success' && (apiData.retailPriceAvg !== null || apiData.criticScore !== null)) {
-    // API gave us good data
-    result.retailPriceAvg = apiData.retailPriceAvg;
-    result.retailPriceMin = apiData.retailPriceMin;
-    result.criticScore = apiData.criticScore;
-    result.dataSource = communityData?.communityScore !== null ? 'mixed' : 'api';
-    console.log(`  [API] "${wine.name}" ${wine.vintage ?? 'NV'}: avg=${apiData.retailPriceAvg}, critic=${apiData.criticScore}`);
-  } else {
-    // API failed or unavailable — fall back to web search
-    const reason = apiData?.status ?? 'error';
-    console.log(`  [API] "${wine.name}" ${wine.vintage ?? 'NV'}: ${reason}, falling back to web search`);
-
-    const fallbackData = await lookupViaWebSearch(wine, currency);
-    result.retailPriceAvg = fallbackData.retailPriceAvg;
-    result.retailPriceMin = fallbackData.retailPriceMin;
-    result.criticScore = fallbackData.criticScore;
-    result.dataSource = 'web_search';
-
-    // If community score wasn't found by dedicated lookup, use fallback's data
-    if (result.communityScore === null) {
-      result.communityScore = fallbackData.communityScore;
-      result.communityReviewCount = fallbackData.communityReviewCount;
-    }
-  }
-
-  return result;
+/**
+ * Look up a single wine. `answered` lists the fields that now have a definite value
+ * (found, confirmed missing, or fresh in the cache) — fields whose provider failed are left out.
+ */
+export async function lookupWine(
+  wine: WineIdentity,
+  currency: string,
+  options: WineLookupOptions = {}
+): Promise<{ data: WineLookupData; answered: LookupField[] }> {
+  const cached: CachedLookup = options.bypassCache
+    ? {
+        data: { retailPriceAvg: null, retailPriceMin: null, criticScore: null, communityScore: null, communityReviewCount: null, fieldSources: {} },
+        fresh: [],
+      }
+    : readCachedLookup(wine, currency);
+  const { data, answered } = await lookupSingleWine(wine, currency, cached, options.providers ?? getLookupProviders(), options.signal, options.usage);
+  writeCachedLookup(wine, currency, data, answered);
+  return { data, answered: [...cached.fresh, ...answered] };
 }
 
 // ── Batch lookup — runs individual lookups in parallel ───────────
-export async function lookupWinesBatch(wines: WineValueResult[], currency: string = 'USD'): Promise<WineLookupData[]> {
-  // Check cache first
+// Rejects if `signal` aborts; results of a cancelled batch are discarded rather than cached.
+export async function lookupWinesBatch(
+  wines: WineIdentity[],
+  currency: string = 'USD',
+  signal?: AbortSignal,
+  usage?: ApiUsage
+): Promise<WineLookupData[]> {
+  // Check cache first — wines with every field fresh need no lookup at all
   const results: (WineLookupData | null)[] = new Array(wines.length).fill(null);
+  const cachedLookups = wines.map(wine => readCachedLookup(wine, currency));
   const uncachedIndices: number[] = [];
 
-  for (let i = 0; i < wines.length; i++) {
-    const cached = getCached(wines[i], currency);
-    if (cached) {
-      results[i] = cached;
+  cachedLookups.forEach((cached, i) => {
+    if (cached.fresh.length === LOOKUP_FIELDS.length) {
+      results[i] = cached.data;
     } else {
       uncachedIndices.push(i);
     }
-  }
+  });
 
   const cachedCount = wines.length - uncachedIndices.length;
-  if (cachedCount > 0) {
-    console.log(`  Cache hit: ${cachedCount}/${wines.length} wines`);
+  const partialCount = uncachedIndices.filter(i => cachedLookups[i].fresh.length > 0).length;
+  if (cachedCount > 0 || partialCount > 0) {
+    console.log(`  Cache hit: ${cachedCount}/${wines.length} wines${partialCount > 0 ? `, ${partialCount} more partially cached` : ''}`);
   }
 
   if (uncachedIndices.length === 0) {
@@ -132,13 +185,13 @@ export async function lookupWinesBatch(wines: WineValueResult[], currency: strin
   const lookupPromises = uncachedIndices.map(async (origIdx) => {
     const wine = wines[origIdx];
     try {
-      const data = await lookupSingleWine(wine, currency);
-      setCache(wine, currency, data);
+      const { data, answered } = await lookupSingleWine(wine, currency, cachedLookups[origIdx], getLookupProviders(), signal, usage);
+      writeCachedLookup(wine, currency, data, answered);
       return { origIdx, data };
     } catch (err) {
+      if (signal?.aborted) throw err;
       console.error(`  Error looking up "${wine.name}":`, (err as Error).message);
-      const nullData: WineLookupData = { retailPriceAvg: null, retailPriceMin: null, criticScore: null, communityScore: null, communityReviewCount: null };
-      return { origIdx, data: nullData };
+      return { origIdx, data: cachedLookups[origIdx].data };
     }
   });
 
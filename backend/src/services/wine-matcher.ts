@@ -1,4 +1,5 @@
 import { distance } from 'fastest-levenshtein';
+import { buildSearchName } from '../utils/wine-name-utils.js';
 
 const ABBREVIATIONS: [RegExp, string][] = [
   [/\bch\.\s*/gi, 'Chateau '],
@@ -42,10 +43,55 @@ export function buildSearchQuery(name: string, vintage: number | null): string {
   return vintage ? `${normalized} ${vintage}` : normalized;
 }
 
-export function isCloseMatch(a: string, b: string, threshold = 0.35): boolean {
-  const na = normalizeWineName(a).toLowerCase();
-  const nb = normalizeWineName(b).toLowerCase();
+// Lowercase, abbreviations expanded, accents stripped
+function comparable(name: string): string {
+  return normalizeWineName(name).normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+}
+
+// 1 for identical names, falling towards 0 as the edit distance grows
+export function nameSimilarity(a: string, b: string): number {
+  const na = comparable(a);
+  const nb = comparable(b);
   const maxLen = Math.max(na.length, nb.length);
-  if (maxLen === 0) return true;
-  return distance(na, nb) / maxLen <= threshold;
+  if (maxLen === 0) return 1;
+  return 1 - distance(na, nb) / maxLen;
+}
+
+// ── Match confidence ───────────────────────────────────────────
+const STOP_WORDS = new Set(['de', 'du', 'des', 'la', 'le', 'les', 'di', 'del', 'della', 'the', 'and', 'et', 'von', 'und', 'y']);
+
+// Classifications that put a wine in a different price tier. A match that adds one the menu
+// doesn't mention (a producer's Bourgogne Rouge matched to their Grand Cru) is a different wine.
+const TIER_TERMS = ['grand cru', 'premier cru', '1er cru', 'gran reserva', 'reserva', 'riserva', 'gran selezione', 'grosses gewachs'];
+
+function tokens(name: string): string[] {
+  return name.split(/[^a-z0-9]+/).filter(t => t.length > 1 && !STOP_WORDS.has(t));
+}
+
+function hasTerm(name: string, term: string): boolean {
+  return new RegExp(`\\b${term}\\b`).test(name);
+}
+
+/**
+ * How confident we are (0–1) that a wine a lookup matched is the wine on the menu.
+ * Takes the better of whole-name similarity and the share of the menu's words found in the
+ * matched name (word order differs between lists), then halves it for an added price tier
+ * or a different vintage.
+ */
+export function matchConfidence(
+  menu: { name: string; producer: string; vintage: number | null },
+  matched: { name: string; vintage: number | null }
+): number {
+  const a = comparable(buildSearchName(menu.name, menu.producer));
+  const b = comparable(matched.name);
+
+  const menuTokens = tokens(a);
+  const matchedTokens = new Set(tokens(b));
+  const overlap = menuTokens.length > 0 ? menuTokens.filter(t => matchedTokens.has(t)).length / menuTokens.length : 0;
+  let confidence = Math.max(nameSimilarity(a, b), overlap);
+
+  if (TIER_TERMS.some(term => hasTerm(b, term) && !hasTerm(a, term))) confidence *= 0.5;
+  if (menu.vintage !== null && matched.vintage !== null && menu.vintage !== matched.vintage) confidence *= 0.5;
+
+  return Math.round(confidence * 100) / 100;
 }
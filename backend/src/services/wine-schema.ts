@@ -0,0 +1,218 @@
+import type { ParsedWine, RejectedWine, SourceBox } from '../types/wine.js';
+import { DEFAULT_POUR_ML, STANDARD_BOTTLE_ML, parseVolumeMl } from '../utils/bottle-format.js';
+import { inferWineStyle } from '../utils/wine-style.js';
+
+// Confidence assumed when the parser doesn't give one — low enough to flag the wine for review
+const DEFAULT_CONFIDENCE = 0.5;
+
+// Smallest and largest formats we believe: a 50ml taster up to a Nebuchadnezzar
+const MIN_VOLUME_ML = 50;
+const MAX_VOLUME_ML = 15000;
+
+const NON_VINTAGE = /^(n\.?\s?v\.?|non[- ]?vintage|multi[- ]?vintage)$/i;
+
+export type WineValidation =
+  | { wine: ParsedWine; rejected?: undefined }
+  | { wine?: undefined; rejected: RejectedWine };
+
+function text(value: unknown): string {
+  if (typeof value === 'string') return value.trim();
+  if (typeof value === 'number' && Number.isFinite(value)) return String(value);
+  return '';
+}
+
+// One number as written on a menu, with either separator convention: "1,250.00", "1.250,00",
+// "12,50", "1,250". Where both appear the last is the decimal point; a lone separator followed
+// by exactly three digits groups thousands (no menu prices to a tenth of a penny).
+function readNumber(token: string): number {
+  const lastSeparator = Math.max(token.lastIndexOf('.'), token.lastIndexOf(','));
+  if (lastSeparator === -1) return parseFloat(token);
+  const separators = new Set(token.replace(/\d/g, ''));
+  const decimals = token.length - lastSeparator - 1;
+  const isDecimal = separators.size > 1 || decimals !== 3;
+  const whole = token.slice(0, lastSeparator).replace(/[.,]/g, '');
+  return parseFloat(`${whole}${isDecimal ? '.' : ''}${token.slice(lastSeparator + 1)}`);
+}
+
+/**
+ * Read an amount the parser (or a CSV cell) may have given as a string: "$120", "£1,250", "12,50 €", "1.234,00".
+ * A single number among currency symbols is taken silently; anything that needs a guess
+ * ("12/48", "120 (magnum 240)") takes the first number and records a warning.
+ */
+export function parseAmount(value: unknown, label: string, warnings: string[]): number | null {
+  if (typeof value === 'number') return Number.isFinite(value) && value > 0 ? value : null;
+  if (typeof value !== 'string' || !value.trim()) return null;
+
+  const numbers = value.replace(/\s/g, '').match(/\d+(?:[.,]\d+)*/g);
+  if (!numbers) {
+    warnings.push(`${label} "${value}" is not a number`);
+    return null;
+  }
+
+  const result = readNumber(numbers[0]);
+  if (numbers.length > 1) {
+    warnings.push(`${label} "${value}" read as ${result}`);
+  }
+  return result > 0 ? result : null;
+}
+
+function volume(value: unknown, label: string, warnings: string[]): number | null {
+  const ml = typeof value === 'number' ? value : typeof value === 'string' && value.trim() ? parseVolumeMl(value) : null;
+  if (ml === null) {
+    if (value !== null && value !== undefined && value !== '') {
+      warnings.push(`${label} "${value}" not understood`);
+    }
+    return null;
+  }
+  if (ml < MIN_VOLUME_ML || ml > MAX_VOLUME_ML) {
+    warnings.push(`${label} of ${ml}ml is implausible`);
+    return null;
+  }
+  return Math.round(ml);
+}
+
+/**
+ * Read a vintage year: 2018, "2018", "'18" → 2018. "NV" and friends are a valid null.
+ */
+function vintage(value: unknown, warnings: string[]): number | null {
+  const maxYear = new Date().getFullYear() + 1;
+  const raw = text(value);
+  if (!raw || NON_VINTAGE.test(raw)) return null;
+
+  const full = raw.match(/\b(1[89]\d{2}|20\d{2})\b/);
+  const short = raw.match(/^['‘’]\s?(\d{2})$/);
+  let year: number | null = null;
+  if (full) {
+    year = parseInt(full[1], 10);
+    if (raw !== full[1]) warnings.push(`Vintage "${raw}" read as ${year}`);
+  } else if (short) {
+    const yy = parseInt(short[1], 10);
+    year = 2000 + yy <= maxYear ? 2000 + yy : 1900 + yy;
+  }
+
+  if (year === null || year > maxYear) {
+    warnings.push(`Vintage "${raw}" not understood; treated as non-vintage`);
+    return null;
+  }
+  return year;
+}
+
+function isFraction(n: unknown): n is number {
+  return typeof n === 'number' && n >= 0 && n <= 1;
+}
+
+// Discard boxes that aren't well-formed fractions of the page rather than highlight the wrong area
+function validBox(value: unknown): SourceBox | null {
+  const box = value as Partial<SourceBox> | null | undefined;
+  if (!box || !isFraction(box.x) || !isFraction(box.y) || !isFraction(box.width) || !isFraction(box.height)) return null;
+  if (box.width === 0 || box.height === 0) return null;
+  return {
+    x: box.x,
+    y: box.y,
+    width: Math.min(box.width, 1 - box.x),
+    height: Math.min(box.height, 1 - box.y),
+  };
+}
+
+/**
+ * Check one parser-supplied wine against the ParsedWine schema.
+ * Safe coercions (string prices, two-digit vintages, volume strings) are applied; anything
+ * guessed or dropped is recorded in `warnings`. Entries with no usable name or price are rejected.
+ */
+export function validateParsedWine(raw: unknown): WineValidation {
+  const entry = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>;
+  const rawText = text(entry.rawText) || text(entry.name) || JSON.stringify(raw)?.substring(0, 200) || '';
+  // Keep what the source already noted (a CSV import reads its own prices)
+  const warnings: string[] = Array.isArray(entry.warnings) ? entry.warnings.filter(w => typeof w === 'string') : [];
+
+  const name = text(entry.name);
+  if (!name) {
+    return { rejected: { rawText, reason: 'No wine name' } };
+  }
+
+  const glassPrice = parseAmount(entry.glassPrice, 'Glass price', warnings);
+  const pourSizeMl = volume(entry.pourSizeMl, 'Pour size', warnings);
+  let restaurantPrice = parseAmount(entry.restaurantPrice, 'Price', warnings);
+  let bottleSizeMl = volume(entry.bottleSizeMl, 'Bottle size', warnings);
+
+  if (restaurantPrice === null && glassPrice !== null) {
+    warnings.push('No bottle price; priced by the glass');
+    restaurantPrice = glassPrice;
+    bottleSizeMl = pourSizeMl ?? DEFAULT_POUR_ML;
+  }
+  if (restaurantPrice === null) {
+    return { rejected: { rawText, reason: 'No price' } };
+  }
+  bottleSizeMl ??= STANDARD_BOTTLE_ML;
+
+  if (glassPrice !== null && bottleSizeMl >= STANDARD_BOTTLE_ML && glassPrice >= restaurantPrice) {
+    warnings.push('Glass price is not below the bottle price');
+  }
+
+  let confidence = typeof entry.confidence === 'number' ? entry.confidence : parseFloat(text(entry.confidence));
+  if (!Number.isFinite(confidence)) {
+    confidence = DEFAULT_CONFIDENCE;
+    warnings.push('No extraction confidence given');
+  }
+
+  const section = text(entry.section) || null;
+  const sourcePage = entry.sourcePage;
+
+  return {
+    wine: {
+      name,
+      producer: text(entry.producer),
+      vintage: vintage(entry.vintage, warnings),
+      region: text(entry.region),
+      grapeVariety: text(entry.grapeVariety),
+      section,
+      style: inferWineStyle(text(entry.style), section),
+      restaurantPrice,
+      bottleSizeMl,
+      glassPrice,
+      pourSizeMl,
+      rawText,
+      confidence: Math.min(1, Math.max(0, confidence)),
+      warnings,
+      sourcePage: typeof sourcePage === 'number' && Number.isInteger(sourcePage) && sourcePage >= 1 ? sourcePage : null,
+      sourceBox: validBox(entry.sourceBox),
+    },
+  };
+}
+
+export type WineEdit = Partial<Pick<ParsedWine, 'name' | 'producer' | 'vintage' | 'restaurantPrice' | 'bottleSizeMl' | 'glassPrice' | 'pourSizeMl'>>;
+
+const isBlank = (value: unknown) => value === null || (typeof value === 'string' && !value.trim());
+
+/**
+ * Check a user's edit to a wine with the same coercions as parsed wines. Nothing is guessed:
+ * a value that would need a warning, or a missing price or bottle size, is refused.
+ * Returns the fields to set, or an error message.
+ */
+export function validateWineEdit(body: unknown): WineEdit | string {
+  const entry = (body && typeof body === 'object' ? body : {}) as Record<string, unknown>;
+  const edit: WineEdit = {};
+  const warnings: string[] = [];
+
+  if (entry.name !== undefined) {
+    edit.name = text(entry.name);
+    if (!edit.name) return 'Name must not be empty';
+  }
+  if (entry.producer !== undefined) edit.producer = text(entry.producer);
+  if (entry.vintage !== undefined) edit.vintage = vintage(entry.vintage, warnings);
+
+  // Optional fields may be cleared with null or ""; anything else has to read as a positive value
+  const read = <T>(value: unknown, label: string, parse: (value: unknown, label: string, warnings: string[]) => T | null, required = false) => {
+    const result = parse(value, label, warnings);
+    if (result === null && (required || !isBlank(value)) && warnings.length === 0) {
+      warnings.push(isBlank(value) ? `${label} is required` : `${label} "${value}" must be above zero`);
+    }
+    return result;
+  };
+  if (entry.restaurantPrice !== undefined) edit.restaurantPrice = read(entry.restaurantPrice, 'Price', parseAmount, true) ?? undefined;
+  if (entry.bottleSizeMl !== undefined) edit.bottleSizeMl = read(entry.bottleSizeMl, 'Bottle size', volume, true) ?? undefined;
+  if (entry.glassPrice !== undefined) edit.glassPrice = read(entry.glassPrice, 'Glass price', parseAmount);
+  if (entry.pourSizeMl !== undefined) edit.pourSizeMl = read(entry.pourSizeMl, 'Pour size', volume);
+
+  return warnings.length > 0 ? warnings[0] : edit;
+}
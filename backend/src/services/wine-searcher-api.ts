@@ -1,5 +1,11 @@
 import { config } from '../config.js';
 import { buildApiWineName } from '../utils/wine-name-utils.js';
+import { httpError, wineSearcherScheduler } from '../utils/request-scheduler.js';
+import type { ApiUsage, MatchCandidate, WineMatch } from '../types/wine.js';
+import { matchConfidence } from './wine-matcher.js';
+import { convertPrice } from './currency.js';
+import { reserveWineSearcherCall } from './api-usage.js';
+import type { LookupProvider } from './lookup-providers.js';
 
 // ── Types ──────────────────────────────────────────────────────
 export interface WineSearcherApiResult {
@@ -11,6 +17,8 @@ export interface WineSearcherApiResult {
   region: string | null;
   grape: string | null;
   matchedName: string | null;
+  matchedVintage: number | null;
+  candidates: MatchCandidate[]; // the possible wines when status is 'ambiguous'
 }
 
 const NULL_RESULT: WineSearcherApiResult = {
@@ -22,41 +30,55 @@ const NULL_RESULT: WineSearcherApiResult = {
   region: null,
   grape: null,
   matchedName: null,
+  matchedVintage: null,
+  candidates: [],
 };
 
-// ── Daily rate tracking (100 calls/day free trial) ──────────────
-let dailyCallCount = 0;
-let dailyResetDate = new Date().toDateString();
-const DAILY_LIMIT = 95; // 5-call buffer below 100
+const MAX_CANDIDATES = 8;
 
-function checkAndIncrementDailyLimit(): boolean {
-  const today = new Date().toDateString();
-  if (today !== dailyResetDate) {
-    dailyCallCount = 0;
-    dailyResetDate = today;
-  }
-  if (dailyCallCount >= DAILY_LIMIT) return false;
-  dailyCallCount++;
-  return true;
-}
+// ── API currencies ─────────────────────────────────────────────
+// Currencies the API prices in; anything else is fetched in USD and converted (see currency.ts)
+const API_CURRENCIES = new Set(['USD', 'GBP', 'EUR', 'AUD', 'CAD', 'CHF']);
 
-export function getRemainingApiCalls(): number {
-  const today = new Date().toDateString();
-  if (today !== dailyResetDate) return DAILY_LIMIT;
-  return Math.max(0, DAILY_LIMIT - dailyCallCount);
+function apiCurrencyFor(currency: string): string {
+  return API_CURRENCIES.has(currency) ? currency : 'USD';
 }
 
-// ── API currency code mapping ──────────────────────────────────
-const CURRENCY_CODES: Record<string, string> = {
-  USD: 'USD',
-  GBP: 'GBP',
-  EUR: 'EUR',
-  AUD: 'AUD',
-  CAD: 'CAD',
-  CHF: 'CHF',
-};
+// A price from the API in the menu's currency; undefined when there's no rate to convert with
+function inMenuCurrency(price: number | null, currency: string): number | null | undefined {
+  if (price === null) return null;
+  const converted = convertPrice(price, apiCurrencyFor(currency), currency);
+  return converted === null ? undefined : Math.round(converted);
+}
 
 // ── Parse Wine-Searcher API response ───────────────────────────
+function parseWineEntry(wine: any) {
+  // Price fields — try multiple possible field names
+  const priceAvg = parseFloat(wine['price-average'] ?? wine['Price-Average'] ?? wine['priceAverage'] ?? wine['average_price'] ?? '');
+  const priceMin = parseFloat(wine['price-min'] ?? wine['Price-Min'] ?? wine['priceMin'] ?? wine['min_price'] ?? '');
+  const priceMax = parseFloat(wine['price-max'] ?? wine['Price-Max'] ?? wine['priceMax'] ?? wine['max_price'] ?? '');
+
+  // Score field
+  const score = parseFloat(wine['score'] ?? wine['Score'] ?? wine['critic-score'] ?? wine['criticScore'] ?? '');
+
+  // Other fields
+  const region = wine['region'] ?? wine['Region'] ?? null;
+  const grape = wine['grape'] ?? wine['Grape'] ?? null;
+  const matchedName = wine['name'] ?? wine['Name'] ?? wine['wine-name'] ?? null;
+  const vintage = parseInt(wine['vintage'] ?? wine['Vintage'] ?? '', 10);
+
+  return {
+    retailPriceAvg: isNaN(priceAvg) ? null : Math.round(priceAvg),
+    retailPriceMin: isNaN(priceMin) ? null : Math.round(priceMin),
+    retailPriceMax: isNaN(priceMax) ? null : Math.round(priceMax),
+    criticScore: isNaN(score) ? null : Math.round(score),
+    region: region || null,
+    grape: grape || null,
+    matchedName: matchedName || null,
+    matchedVintage: isNaN(vintage) ? null : vintage,
+  };
+}
+
 function parseApiResponse(data: any): WineSearcherApiResult {
   // The Wine Check API returns a JSON object with status and wine data
   // Response structure varies; handle multiple formats
@@ -68,7 +90,20 @@ function parseApiResponse(data: any): WineSearcherApiResult {
       return { ...NULL_RESULT, status: 'no_match' };
     }
     if (statusCode === 8) {
-      return { ...NULL_RESULT, status: 'ambiguous' };
+      // Several wines match the name; keep them so the user can pick the right one
+      const listed = data?.wines ?? data?.wine ?? data?.List ?? [];
+      const candidates: MatchCandidate[] = [];
+      for (const entry of Array.isArray(listed) ? listed : [listed]) {
+        const parsed = parseWineEntry(entry ?? {});
+        if (!parsed.matchedName || candidates.some(c => c.name === parsed.matchedName)) continue;
+        candidates.push({
+          name: parsed.matchedName,
+          vintage: parsed.matchedVintage,
+          retailPriceAvg: parsed.retailPriceAvg,
+          criticScore: parsed.criticScore,
+        });
+      }
+      return { ...NULL_RESULT, status: 'ambiguous', candidates: candidates.slice(0, MAX_CANDIDATES) };
     }
     if (statusCode === 5 || statusCode === 6 || statusCode === 7) {
       return { ...NULL_RESULT, status: 'rate_limited' };
@@ -85,29 +120,7 @@ function parseApiResponse(data: any): WineSearcherApiResult {
       return { ...NULL_RESULT, status: 'no_match' };
     }
 
-    // Price fields — try multiple possible field names
-    const priceAvg = parseFloat(wine['price-average'] ?? wine['Price-Average'] ?? wine['priceAverage'] ?? wine['average_price'] ?? '');
-    const priceMin = parseFloat(wine['price-min'] ?? wine['Price-Min'] ?? wine['priceMin'] ?? wine['min_price'] ?? '');
-    const priceMax = parseFloat(wine['price-max'] ?? wine['Price-Max'] ?? wine['priceMax'] ?? wine['max_price'] ?? '');
-
-    // Score field
-    const score = parseFloat(wine['score'] ?? wine['Score'] ?? wine['critic-score'] ?? wine['criticScore'] ?? '');
-
-    // Other fields
-    const region = wine['region'] ?? wine['Region'] ?? null;
-    const grape = wine['grape'] ?? wine['Grape'] ?? null;
-    const matchedName = wine['name'] ?? wine['Name'] ?? wine['wine-name'] ?? null;
-
-    return {
-      status: 'success',
-      retailPriceAvg: isNaN(priceAvg) ? null : Math.round(priceAvg),
-      retailPriceMin: isNaN(priceMin) ? null : Math.round(priceMin),
-      retailPriceMax: isNaN(priceMax) ? null : Math.round(priceMax),
-      criticScore: isNaN(score) ? null : Math.round(score),
-      region: region || null,
-      grape: grape || null,
-      matchedName: matchedName || null,
-    };
+    return { ...NULL_RESULT, ...parseWineEntry(wine), status: 'success' };
   } catch {
     return { ...NULL_RESULT, status: 'error' };
   }
@@ -118,21 +131,17 @@ export async function lookupViaWineSearcherApi(
   wineName: string,
   producer: string,
   vintage: number | null,
-  currency: string
+  currency: string,
+  signal?: AbortSignal,
+  usage?: ApiUsage // the session's counters, when the call is for a session
 ): Promise<WineSearcherApiResult> {
   // Check if API key is configured
   if (!config.wineSearcherApiKey) {
     return { ...NULL_RESULT, status: 'error' };
   }
 
-  // Check daily rate limit
-  if (!checkAndIncrementDailyLimit()) {
-    console.log('  [API] Daily rate limit reached');
-    return { ...NULL_RESULT, status: 'rate_limited' };
-  }
-
   const apiWineName = buildApiWineName(wineName, producer);
-  const currencyCode = CURRENCY_CODES[currency] || 'USD';
+  const currencyCode = apiCurrencyFor(currency);
 
   // Build API URL
   const params = new URLSearchParams({
@@ -148,17 +157,28 @@ export async function lookupViaWineSearcherApi(
   // Wine-Searcher API base URL (Wine Check endpoint)
   const url = `https://api.wine-searcher.com/wine-select-api.lml?${params.toString()}`;
 
-  try {
-    const controller = new AbortController();
-    const timeout = setTimeout(() => controller.abort(), 5000);
-
-    const response = await fetch(url, {
-      method: 'GET',
-      headers: { 'Accept': 'application/json' },
-      signal: controller.signal,
-    });
+  // Every request, retries included, counts against the daily and per-session call budgets
+  // (WINE_SEARCHER_DAILY_LIMIT / _SESSION_LIMIT). Not retryable, so a spent budget ends the retries.
+  const budgetSpent = new Error('Call budget used up');
 
-    clearTimeout(timeout);
+  try {
+    const response = await wineSearcherScheduler.run(async () => {
+      if (!reserveWineSearcherCall(usage)) throw budgetSpent;
+      const controller = new AbortController();
+      const timeout = setTimeout(() => controller.abort(), 5000);
+      try {
+        const res = await fetch(url, {
+          method: 'GET',
+          headers: { 'Accept': 'application/json' },
+          signal: signal ? AbortSignal.any([controller.signal, signal]) : controller.signal,
+        });
+        // Throttled or a server error: the scheduler backs off and tries again
+        if (res.status === 429 || res.status >= 500) throw httpError(res);
+        return res;
+      } finally {
+        clearTimeout(timeout);
+      }
+    }, { signal });
 
     if (!response.ok) {
       console.log(`  [API] HTTP ${response.status} for "${wineName}"`);
@@ -183,6 +203,15 @@ export async function lookupViaWineSearcherApi(
       }
     }
   } catch (err) {
+    if (signal?.aborted) throw err;
+    if (err === budgetSpent) {
+      console.log('  [API] Call budget used up');
+      return { ...NULL_RESULT, status: 'rate_limited' };
+    }
+    if ((err as { status?: number }).status === 429) {
+      console.log(`  [API] Still rate limited after retries for "${wineName}"`);
+      return { ...NULL_RESULT, status: 'rate_limited' };
+    }
     const message = (err as Error).message;
     if (message.includes('abort')) {
       console.log(`  [API] Timeout for "${wineName}"`);
@@ -192,3 +221,48 @@ export async function lookupViaWineSearcherApi(
     return { ...NULL_RESULT, status: 'error' };
   }
 }
+
+export const wineSearcherProvider: LookupProvider = {
+  name: 'wine-searcher',
+  fields: ['retailPriceAvg', 'retailPriceMin', 'criticScore'],
+  isAvailable: () => config.hasWineSearcherApi,
+  async lookup(wine, currency, signal) {
+    // Search for the wine the user picked last time this menu text was ambiguous
+    const result = wine.matchedName
+      ? await lookupViaWineSearcherApi(wine.matchedName, '', wine.vintage, currency, signal, wine.usage)
+      : await lookupViaWineSearcherApi(wine.name, wine.producer, wine.vintage, currency, signal, wine.usage);
+    console.log(`  [API] "${wine.name}" ${wine.vintage ?? 'NV'}: ${result.status === 'success'
+      ? `avg=${result.retailPriceAvg}, critic=${result.criticScore}`
+      : result.status === 'ambiguous'
+        ? `ambiguous (${result.candidates.length} candidates)`
+        : result.status}`);
+    // A definite no-match is an answer worth caching; errors, rate limits and ambiguous matches are not
+    if (result.status === 'no_match') return { retailPriceAvg: null, retailPriceMin: null, criticScore: null, candidates: [] };
+    if (result.status === 'ambiguous') {
+      return {
+        candidates: result.candidates.map(c => ({ ...c, retailPriceAvg: inMenuCurrency(c.retailPriceAvg, currency) ?? null })),
+      };
+    }
+    if (result.status !== 'success') return {};
+
+    // Check the API found the wine on the menu, not a namesake from the same producer
+    let match: WineMatch | undefined;
+    if (result.matchedName) {
+      const matched = { name: result.matchedName, vintage: result.matchedVintage };
+      const confidence = wine.matchedName ? 1 : matchConfidence(wine, matched);
+      match = { ...matched, confidence, accepted: confidence >= config.matchConfidenceThreshold };
+      if (!match.accepted) {
+        console.log(`  [API] Refused match "${result.matchedName}" for "${wine.name}" (confidence ${confidence})`);
+        // Treated as not found, so the fields fall through to the next provider
+        return { retailPriceAvg: null, retailPriceMin: null, criticScore: null, candidates: [], match };
+      }
+    }
+    return {
+      retailPriceAvg: inMenuCurrency(result.retailPriceAvg, currency),
+      retailPriceMin: inMenuCurrency(result.retailPriceMin, currency),
+      criticScore: result.criticScore,
+      candidates: [],
+      match,
+    };
+  },
+};
@@ -1,12 +1,84 @@
+export type WineStyle = 'red' | 'white' | 'rose' | 'sparkling' | 'sweet' | 'fortified';
+
+// Approximate location of a wine on its source page, as fractions (0–1) of the page size, origin top-left
+export interface SourceBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
 export interface ParsedWine {
   name: string;
   producer: string;
   vintage: number | null;
   region: string;
   grapeVariety: string;
+  section: string | null; // menu section header as printed, e.g. "Red – Bordeaux", "Coravin"
+  style: WineStyle | null;
   restaurantPrice: number;
+  bottleSizeMl: number; // volume restaurantPrice buys — 375 half, 1500 magnum, pour size for glass-only wines
+  glassPrice: number | null;
+  pourSizeMl: number | null;
   rawText: string;
   confidence: number;
+  warnings: string[]; // fields the parser got wrong or left out that had to be coerced or guessed
+  sourceFile?: string; // original filename of the upload this wine was parsed from
+  sourceFileId?: string;
+  sourcePage: number | null; // 1-based page within the source file
+  sourceBox: SourceBox | null;
+}
+
+// What lookup providers and the cache need to identify a wine
+export type WineIdentity = Pick<ParsedWine, 'name' | 'producer' | 'vintage'>;
+
+// An uploaded document kept for the life of the session so wines can be traced back to it
+export interface SourceFile {
+  id: string;
+  name: string;
+  ext: string;
+}
+
+export interface ParseFailure {
+  sourceFile?: string;
+  pages?: string; // page range of a PDF chunk, e.g. "9-16"
+  error: string;
+}
+
+// A parser entry that couldn't be used as a wine at all (no name or no price)
+export interface RejectedWine {
+  sourceFile?: string;
+  rawText: string;
+  reason: string;
+}
+
+export interface ParseReport {
+  extracted: number; // entries returned by the parser, across all uploads
+  rejected: RejectedWine[];
+}
+
+// Lookup provider name (e.g. "wine-searcher") that supplied each field, for fields that were found
+export interface FieldSources {
+  retailPriceAvg?: string;
+  retailPriceMin?: string;
+  criticScore?: string;
+  communityScore?: string;
+}
+
+// One of several wines Wine-Searcher matched for the menu text, for the user to choose between
+export interface MatchCandidate {
+  name: string;
+  vintage: number | null;
+  retailPriceAvg: number | null;
+  criticScore: number | null;
+}
+
+// The wine a lookup provider matched the menu entry to
+export interface WineMatch {
+  name: string;
+  vintage: number | null;
+  confidence: number; // 0–1 similarity to the menu entry (1 when the user picked it)
+  accepted: boolean; // false when below MATCH_CONFIDENCE_THRESHOLD — its prices and score were not used
 }
 
 export interface WineLookupResult {
@@ -18,19 +90,156 @@ export interface WineLookupResult {
   lookupStatus: 'pending' | 'found' | 'partial' | 'not_found' | 'error';
   wineSearcherUrl: string | null;
   cellarTrackerUrl: string | null;
-  dataSource?: 'api' | 'web_search' | 'mixed';
+  fieldSources: FieldSources; // which lookup provider supplied each field
+  matchCandidates: MatchCandidate[]; // non-empty while the Wine-Searcher match is ambiguous
+  match: WineMatch | null;
+}
+
+// A band of menu prices: from `min` (inclusive) up to `max` (exclusive; null = no upper bound)
+export interface PriceTier {
+  min: number;
+  max: number | null;
+}
+
+// Where a wine's value score places it among the scored wines in its price tier
+export interface TierRank {
+  rank: number; // 1 = best value in the tier; ties share a rank
+  of: number;
+  topPercent: number; // "top 10% value under £80"
+}
+
+// What a community score is shrunk toward: well-reviewed wines from the same region on the list,
+// typical scores for the wine's retail price band, or a general default
+export type PriorBasis = 'region' | 'price band' | 'default';
+
+// Every number that went into a wine's value score (see value-calculator.ts), so "why is this a 38?"
+// can be answered without redoing the maths. Sources are lookup provider names.
+export interface ScoreBreakdown {
+  profile: string | null; // scoring profile name
+  critic: { score: number; source: string | null; uncertainty: number } | null;
+  community: {
+    score: number;
+    source: string | null;
+    reviewCount: number | null; // as reported; null = unknown
+    reviewsCounted: number; // what the shrinking used
+    prior: number;
+    priorBasis: PriorBasis;
+    priorReviews: number; // how many reviews the prior counts as
+    adjusted: number; // after shrinking toward the prior
+    uncertainty: number;
+  } | null;
+  weights: { critic: number; community: number }; // the profile's, before confidence
+  criticShare: number; // share of the quality estimate from the critic score, after confidence
+  quality: number;
+  qualityUncertainty: number;
+  qualityFloor: number;
+  belowFloor: boolean;
+  restaurantPrice: number;
+  bottleSizeMl: number;
+  retailPrice: number; // average retail per 750ml
+  retailSource: string | null;
+  retailForFormat: number; // scaled to the listed bottle size
+  markupRatio: number;
+  markupExponent: number;
+  rawScore: number; // quality / markupRatio^markupExponent, before rounding and clamping
+  clamped: 'min' | 'max' | null; // raw score was below 0 or above 100
+  valueScore: number;
 }
 
 export interface WineValueResult extends ParsedWine, WineLookupResult {
+  qualityEstimate: number | null; // critic and community scores combined, weighted by how reliable each is
+  qualityUncertainty: number | null; // ± points (one standard deviation) on qualityEstimate
   markupPercent: number | null;
   valueScore: number | null;
+  scoreBreakdown: ScoreBreakdown | null; // how valueScore was worked out
+  priceTier: number | null; // index into the session's priceTiers
+  tierRank: TierRank | null; // null until enough wines in the tier have value scores
+}
+
+// What a recommendations request narrows the list to. Text filters match part of the field, ignoring case and accents.
+export interface RecommendationFilters {
+  maxPrice: number | null; // menu price, in the list's currency
+  style: WineStyle | null;
+  region: string | null; // matched against the region and the menu section
+  grape: string | null;
+  minQuality: number | null; // quality estimate, 0–100
+  limit: number;
+}
+
+export interface Recommendation {
+  rank: number; // 1 = best value among the wines matching the filters
+  index: number; // position in the session's wines
+  wine: WineValueResult;
+  reason: string; // one line on why it was picked, built from its value data
+}
+
+export interface Recommendations {
+  filters: RecommendationFilters;
+  matched: number; // scored wines that pass the filters
+  unscored: number; // wines that pass the filters but have no value score yet
+  picks: Recommendation[];
+}
+
+// Distribution of markupPercent over a group of wines (percentages, to one decimal place)
+export interface MarkupStats {
+  count: number;
+  mean: number;
+  median: number;
+  p25: number; // lower quartile
+  p75: number; // upper quartile
+  min: number;
+  max: number;
+  stdDev: number;
+}
+
+export interface MarkupOutlier {
+  index: number; // position in the session's wines
+  name: string;
+  producer: string;
+  vintage: number | null;
+  restaurantPrice: number;
+  markupPercent: number;
+}
+
+// How the restaurant prices its list as a whole, from the wines that have a retail price
+export interface MarkupSummary {
+  coverage: {
+    wines: number;
+    priced: number; // have a markup
+    scored: number; // have a value score
+    scoredShare: number; // 0–1
+  };
+  overall: MarkupStats | null; // null until a wine has a markup
+  byTier: { tier: PriceTier; stats: MarkupStats | null }[]; // the session's price tiers, in order
+  byRegion: { region: string; stats: MarkupStats }[]; // most wines first
+  byStyle: { style: WineStyle | null; stats: MarkupStats }[]; // null = style unknown
+  outliers: {
+    high: MarkupOutlier[]; // marked up far more than the rest of the list, highest first
+    low: MarkupOutlier[]; // far less, lowest first
+  };
+}
+
+// API calls and tokens spent; kept per day (api-usage.ts) and per session
+export interface ApiUsage {
+  wineSearcherCalls: number;
+  anthropicRequests: number;
+  anthropicInputTokens: number;
+  anthropicOutputTokens: number;
 }
 
 export interface SessionData {
   id: string;
   wines: WineValueResult[];
   currency: string;
-  status: 'parsing' | 'parsed' | 'looking_up' | 'complete' | 'error';
+  sourceFiles: SourceFile[];
+  parseFailures: ParseFailure[];
+  parseReport: ParseReport;
+  status: 'parsing' | 'parsed' | 'looking_up' | 'complete' | 'cancelled' | 'error';
+  parseInProgress: boolean; // documents still being read — wines keep arriving, even once lookup has started
   createdAt: Date;
+  apiUsage: ApiUsage; // spent by this list's lookups
+  scoringProfile: string; // name of the profile value scores are computed with
+  priceTiers: PriceTier[]; // the list's menu prices in bands, cheapest first
+  budgetPaused?: boolean; // the lookup stopped because wines parsed since it started would go over the API budget
   error?: string;
 }
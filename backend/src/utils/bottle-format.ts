@@ -0,0 +1,36 @@
+// Retail prices from Wine-Searcher and web search are for a standard 750ml bottle
+export const STANDARD_BOTTLE_ML = 750;
+
+// Used for glass-only wines that don't state a pour (5oz, the common US pour)
+export const DEFAULT_POUR_ML = 150;
+
+// Names menus use for non-standard bottle formats
+const NAMED_FORMATS: [RegExp, number][] = [
+  [/\b(split|piccolo|quarter)\b/i, 187],
+  [/\b(half|demi)\b/i, 375],
+  [/\b(carafe|pot|50\s*cl)\b/i, 500],
+  [/\bdouble\s+magnum\b/i, 3000],
+  [/\bmagnum\b/i, 1500],
+  [/\bjeroboam\b/i, 3000],
+];
+
+/**
+ * Read a volume like "375ml", "37.5cl", "1.5L", "5oz" or a named format ("Magnum", "Half") as ml.
+ */
+export function parseVolumeMl(raw: string): number | null {
+  for (const [pattern, ml] of NAMED_FORMATS) {
+    if (pattern.test(raw)) return ml;
+  }
+  const match = raw.toLowerCase().match(/(\d+(?:\.\d+)?)\s*(ml|cl|l|oz)?\b/);
+  if (!match) return null;
+
+  const value = parseFloat(match[1]);
+  switch (match[2]) {
+    case 'ml': return Math.round(value);
+    case 'cl': return Math.round(value * 10);
+    case 'l': return Math.round(value * 1000);
+    case 'oz': return Math.round(value * 29.5735 / 5) * 5;
+    // Bare numbers: guess the unit from the magnitude
+    default: return value < 10 ? Math.round(value * 1000) : value < 100 ? Math.round(value * 10) : Math.round(value);
+  }
+}
@@ -3,6 +3,8 @@ import path from 'path';
 import { v4 as uuidv4 } from 'uuid';
 import { config } from '../config.js';
 import fs from 'fs';
+import { TEXT_EXTENSIONS } from './text-extractor.js';
+import type { SourceFile } from '../types/wine.js';
 
 if (!fs.existsSync(config.uploadsDir)) {
   fs.mkdirSync(config.uploadsDir, { recursive: true });
@@ -19,12 +21,12 @@ const storage = multer.diskStorage({
 });
 
 const fileFilter = (_req: Express.Request, file: Express.Multer.File, cb: multer.FileFilterCallback) => {
-  const allowed = ['.pdf', '.jpg', '.jpeg', '.png', '.webp'];
+  const allowed = ['.pdf', '.jpg', '.jpeg', '.png', '.webp', ...TEXT_EXTENSIONS];
   const ext = path.extname(file.originalname).toLowerCase();
   if (allowed.includes(ext)) {
     cb(null, true);
   } else {
-    cb(new Error(`File type ${ext} not supported. Use PDF, JPG, PNG, or WebP.`));
+    cb(new Error(`File type ${ext} not supported. Use PDF, JPG, PNG, WebP, DOCX, HTML, CSV, or TXT.`));
   }
 };
 
@@ -33,3 +35,19 @@ export const upload = multer({
   fileFilter,
   limits: { fileSize: config.maxFileSizeMB * 1024 * 1024 },
 });
+
+// Uploads are stored as <uuid><ext> in the uploads dir; the uuid doubles as the source file id
+export function toSourceFile(file: Pick<Express.Multer.File, 'path' | 'originalname'>): SourceFile {
+  const ext = path.extname(file.path).toLowerCase();
+  return { id: path.basename(file.path, ext), name: file.originalname, ext };
+}
+
+export function sourceFilePath(file: SourceFile): string {
+  return path.join(config.uploadsDir, `${file.id}${file.ext}`);
+}
+
+export function deleteSourceFiles(files: SourceFile[]): void {
+  for (const file of files) {
+    fs.unlink(sourceFilePath(file), () => { /* ignore */ });
+  }
+}
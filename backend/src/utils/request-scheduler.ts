@@ -0,0 +1,193 @@
+import Anthropic from '@anthropic-ai/sdk';
+import { config } from '../config.js';
+
+// ── Types ──────────────────────────────────────────────────────
+export interface SchedulerOptions {
+  name: string; // shown in retry logs
+  requestsPerSecond: number; // token bucket refill rate
+  burst: number; // bucket size — requests that can start back to back after a quiet spell
+  maxConcurrent: number; // requests in flight at once
+  maxRetries: number;
+  baseDelayMs?: number; // first retry waits about this long, doubling each time
+  maxDelayMs?: number;
+}
+
+export interface RunOptions {
+  signal?: AbortSignal; // aborts waiting for a slot, the backoff sleep, and is passed to the task
+  shouldRetry?: (err: unknown) => boolean; // extra veto, e.g. once a stream has produced output
+}
+
+export interface Scheduler {
+  run<T>(task: (signal?: AbortSignal) => Promise<T>, options?: RunOptions): Promise<T>;
+  stats(): { active: number; queued: number; retries: number; pausedForMs: number };
+}
+
+// ── Retry policy ───────────────────────────────────────────────
+// Rate limited (429), overloaded (529) and transient server errors are worth another try;
+// other 4xx responses will fail the same way again.
+const RETRY_STATUSES = new Set([408, 409, 429, 500, 502, 503, 504, 529]);
+// A Retry-After longer than this means the quota is gone for a while — give up instead
+const MAX_RETRY_AFTER_MS = 2 * 60 * 1000;
+
+type HeaderBag = Record<string, string | null | undefined>;
+
+function isRetryable(err: unknown): boolean {
+  const status = (err as { status?: unknown })?.status;
+  if (typeof status === 'number') return RETRY_STATUSES.has(status);
+  if (err instanceof Anthropic.APIConnectionError) return true; // includes its timeouts
+  return err instanceof TypeError && err.message === 'fetch failed'; // network error from fetch()
+}
+
+// Server-requested wait in ms, from retry-after-ms / retry-after (seconds or an HTTP date)
+function retryAfterMs(err: unknown): number | null {
+  const headers = (err as { headers?: HeaderBag })?.headers;
+  const ms = parseFloat(headers?.['retry-after-ms'] ?? '');
+  if (Number.isFinite(ms)) return ms;
+  const value = headers?.['retry-after'];
+  if (!value) return null;
+  const seconds = parseFloat(value);
+  if (Number.isFinite(seconds)) return seconds * 1000;
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+/** An Error carrying a fetch() response's status and Retry-After, so the scheduler can classify it. */
+export function httpError(response: Response, message = `HTTP ${response.status}`): Error {
+  return Object.assign(new Error(message), {
+    status: response.status,
+    headers: { 'retry-after': response.headers.get('retry-after') } satisfies HeaderBag,
+  });
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    signal?.throwIfAborted();
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+// ── Scheduler ──────────────────────────────────────────────────
+/**
+ * Queue outbound requests to one API: each start takes a token from a bucket refilled at
+ * `requestsPerSecond`, at most `maxConcurrent` run at once, and failures that are worth
+ * retrying are retried with jittered exponential backoff. A Retry-After from the server
+ * pauses every queued request, not just the one that was told to wait.
+ */
+export function createScheduler(options: SchedulerOptions): Scheduler {
+  const { name, requestsPerSecond, burst, maxConcurrent, maxRetries } = options;
+  const baseDelayMs = options.baseDelayMs ?? 1000;
+  const maxDelayMs = options.maxDelayMs ?? 30_000;
+
+  const waiting: (() => void)[] = []; // starts a queued request
+  let tokens = burst;
+  let refilledAt = Date.now();
+  let active = 0;
+  let retries = 0;
+  let pausedUntil = 0;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  function refill(now: number): void {
+    tokens = Math.min(burst, tokens + ((now - refilledAt) / 1000) * requestsPerSecond);
+    refilledAt = now;
+  }
+
+  // Start as many waiting requests as the bucket, the concurrency cap and any pause allow
+  function pump(): void {
+    if (timer) return;
+    while (waiting.length > 0 && active < maxConcurrent) {
+      const now = Date.now();
+      refill(now);
+      const wait = Math.max(pausedUntil - now, tokens >= 1 ? 0 : ((1 - tokens) / requestsPerSecond) * 1000);
+      if (wait > 0) {
+        timer = setTimeout(() => {
+          timer = null;
+          pump();
+        }, wait);
+        return;
+      }
+      tokens -= 1;
+      active++;
+      waiting.shift()!();
+    }
+  }
+
+  function acquire(signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      signal?.throwIfAborted();
+      const start = () => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      };
+      const onAbort = () => {
+        waiting.splice(waiting.indexOf(start), 1);
+        reject(signal?.reason);
+      };
+      waiting.push(start);
+      signal?.addEventListener('abort', onAbort, { once: true });
+      pump();
+    });
+  }
+
+  function release(): void {
+    active--;
+    pump();
+  }
+
+  function backoff(attempt: number): number {
+    const delay = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+    return delay / 2 + Math.random() * (delay / 2);
+  }
+
+  async function run<T>(task: (signal?: AbortSignal) => Promise<T>, runOptions: RunOptions = {}): Promise<T> {
+    const { signal, shouldRetry } = runOptions;
+    for (let attempt = 0; ; attempt++) {
+      await acquire(signal);
+      let delay: number;
+      try {
+        return await task(signal);
+      } catch (err) {
+        if (signal?.aborted || attempt >= maxRetries || !isRetryable(err) || shouldRetry?.(err) === false) throw err;
+        const requested = retryAfterMs(err);
+        if (requested !== null && requested > MAX_RETRY_AFTER_MS) throw err;
+        delay = requested ?? backoff(attempt);
+        if (requested !== null) pausedUntil = Math.max(pausedUntil, Date.now() + requested);
+        retries++;
+        console.log(`  [${name}] ${(err as Error).message} — retry ${attempt + 1}/${maxRetries} in ${Math.round(delay / 100) / 10}s`);
+      } finally {
+        release();
+      }
+      await sleep(delay, signal);
+    }
+  }
+
+  return {
+    run,
+    stats: () => ({ active, queued: waiting.length, retries, pausedForMs: Math.max(0, pausedUntil - Date.now()) }),
+  };
+}
+
+// ── Shared schedulers ──────────────────────────────────────────
+// Every call to an API goes through its scheduler, whichever part of the app makes it.
+export const anthropicScheduler = createScheduler({
+  name: 'Anthropic',
+  requestsPerSecond: config.anthropicRequestsPerMinute / 60,
+  burst: config.anthropicMaxConcurrent,
+  maxConcurrent: config.anthropicMaxConcurrent,
+  maxRetries: config.requestMaxRetries,
+});
+
+export const wineSearcherScheduler = createScheduler({
+  name: 'Wine-Searcher',
+  requestsPerSecond: config.wineSearcherRequestsPerSecond,
+  burst: 2,
+  maxConcurrent: config.wineSearcherMaxConcurrent,
+  maxRetries: config.requestMaxRetries,
+});
@@ -1,4 +1,5 @@
 import type { SessionData } from '../types/wine.js';
+import { deleteSourceFiles } from './file-handler.js';
 
 const sessions = new Map<string, SessionData>();
 
@@ -6,20 +7,26 @@ export function getSession(id: string): SessionData | undefined {
   return sessions.get(id);
 }
 
+export function listSessions(): SessionData[] {
+  return [...sessions.values()];
+}
+
 export function setSession(session: SessionData): void {
   sessions.set(session.id, session);
 }
 
 export function deleteSession(id: string): void {
+  const session = sessions.get(id);
+  if (session) deleteSourceFiles(session.sourceFiles);
   sessions.delete(id);
 }
 
-// Clean up sessions older than 1 hour
+// Clean up sessions (and their uploaded files) older than 1 hour
 setInterval(() => {
   const oneHourAgo = Date.now() - 60 * 60 * 1000;
   for (const [id, session] of sessions) {
     if (session.createdAt.getTime() < oneHourAgo) {
-      sessions.delete(id);
+      deleteSession(id);
     }
   }
 }, 10 * 60 * 1000);
@@ -0,0 +1,79 @@
+import fs from 'fs';
+import path from 'path';
+import mammoth from 'mammoth';
+
+// File types that are read as text and sent to the parser as a text block rather than an image/document
+export const TEXT_EXTENSIONS = ['.txt', '.csv', '.html', '.htm', '.docx'];
+
+// Long lists as plain text are far smaller than their PDF equivalents, but keep a ceiling on prompt size
+const MAX_TEXT_CHARS = 200_000;
+
+const HTML_ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ',
+  pound: '£', euro: '€', yen: '¥', eacute: 'é', egrave: 'è', ocirc: 'ô', uuml: 'ü', ndash: '–', mdash: '—',
+};
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity.startsWith('#x') || entity.startsWith('#X')) {
+      return String.fromCodePoint(parseInt(entity.slice(2), 16));
+    }
+    if (entity.startsWith('#')) {
+      return String.fromCodePoint(parseInt(entity.slice(1), 10));
+    }
+    return HTML_ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+/**
+ * Reduce an HTML page to readable text, keeping row/cell structure as line breaks and tabs
+ * so menu entries stay on one line each.
+ */
+export function htmlToText(html: string): string {
+  const text = html
+    .replace(/<(script|style|noscript|svg)[^>]*>[\s\S]*?<\/\1>/gi, '')
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/<\/(td|th)>/gi, '\t')
+    .replace(/<(br|\/p|\/div|\/tr|\/li|\/h[1-6]|\/section|\/article)[^>]*>/gi, '\n')
+    .replace(/<[^>]+>/g, '');
+
+  return decodeEntities(text)
+    .split('\n')
+    .map(line => line.replace(/[ \t\u00A0]+/g, ' ').trim())
+    .filter(line => line.length > 0)
+    .join('\n');
+}
+
+export function isTextDocument(filePath: string): boolean {
+  return TEXT_EXTENSIONS.includes(path.extname(filePath).toLowerCase());
+}
+
+/**
+ * Extract the readable text of a text-like document (.txt, .csv, .html, .docx).
+ */
+export async function extractText(filePath: string): Promise<string> {
+  const ext = path.extname(filePath).toLowerCase();
+  let text: string;
+
+  if (ext === '.docx') {
+    const result = await mammoth.extractRawText({ path: filePath });
+    text = result.value;
+  } else if (ext === '.html' || ext === '.htm') {
+    text = htmlToText(fs.readFileSync(filePath, 'utf-8'));
+  } else if (ext === '.txt' || ext === '.csv') {
+    text = fs.readFileSync(filePath, 'utf-8');
+  } else {
+    throw new Error(`Unsupported file type: ${ext}`);
+  }
+
+  text = text.replace(/^\uFEFF/, '').trim();
+  if (!text) {
+    throw new Error('The document contains no readable text');
+  }
+
+  if (text.length > MAX_TEXT_CHARS) {
+    console.log(`  Document text truncated from ${text.length} to ${MAX_TEXT_CHARS} characters`);
+    text = text.substring(0, MAX_TEXT_CHARS);
+  }
+  return text;
+}
@@ -0,0 +1,34 @@
+import type { WineStyle } from '../types/wine.js';
+
+// Checked in order — a "Sparkling Rosé" is sparkling, a "Red Dessert Wine" is sweet
+const STYLE_PATTERNS: [WineStyle, RegExp][] = [
+  ['sparkling', /sparkling|champagne|\bcava\b|prosecco|cr[eé]mant|franciacorta|\bsekt\b|p[eé]t[- ]?nat|spumante|espumoso|\bbubbles\b|\bfizz/i],
+  ['fortified', /fortified|\bports?\b|sherry|madeira|marsala|vin doux naturel|banyuls|\bfino\b|oloroso|amontillado/i],
+  ['sweet', /\bsweet|dessert|sauternes|barsac|tokaji|late harvest|ice ?wine|eiswein|vin santo|beerenauslese|stick(y|ies)/i],
+  ['rose', /\bros[eé](?![a-z])|rosato|rosado|\bblush\b|\bpink\b/i],
+  ['red', /\bred\b|\breds\b|rouge|rosso|tinto/i],
+  ['white', /\bwhites?\b|\bblanc\b|bianco|blanco|\bwei(ss|ß)/i],
+];
+
+/**
+ * Map free text (a parser-supplied style, a menu section header, a CSV "colour" column)
+ * to one of the normalised wine styles. Returns null when nothing matches.
+ */
+export function normalizeWineStyle(raw: string | null | undefined): WineStyle | null {
+  if (!raw) return null;
+  for (const [style, pattern] of STYLE_PATTERNS) {
+    if (pattern.test(raw)) return style;
+  }
+  return null;
+}
+
+/**
+ * Pick the first style that can be read from any of the candidates, most specific first.
+ */
+export function inferWineStyle(...candidates: (string | null | undefined)[]): WineStyle | null {
+  for (const candidate of candidates) {
+    const style = normalizeWineStyle(candidate);
+    if (style) return style;
+  }
+  return null;
+}
@@ -0,0 +1,125 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { PDFDocument, StandardFonts } from 'pdf-lib';
+
+// Parsing runs offline against recorded results: the fixture parser, reading from a scratch
+// fixtures directory that starts with the repo's default recording
+const fixturesDir = fs.mkdtempSync(path.join(os.tmpdir(), 'parser-fixtures-'));
+const workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'parser-test-'));
+process.env.PARSER_PROVIDER = 'fixture';
+process.env.PARSER_FIXTURES_DIR = fixturesDir;
+fs.copyFileSync(path.resolve(path.dirname(fileURLToPath(import.meta.url)), '../fixtures/parser/default.json'), path.join(fixturesDir, 'default.json'));
+
+// Imported after the environment is set, since config reads it on load
+const { config } = await import('../src/config.js');
+const { parseDocument } = await import('../src/services/document-parser.js');
+const { fixtureKey } = await import('../src/services/fixture-parser.js');
+const { readParseInput } = await import('../src/services/wine-list-parser.js');
+const { splitPdf } = await import('../src/services/pdf-chunker.js');
+
+// A parser entry as recorded — unvalidated, so the price can be a string
+const wine = (name: string, restaurantPrice: unknown): Record<string, unknown> => ({
+  name,
+  producer: 'Test Producer',
+  vintage: 2020,
+  region: 'Rioja',
+  grapeVariety: 'Tempranillo',
+  restaurantPrice,
+  rawText: `${name} ... ${restaurantPrice}`,
+  confidence: 0.9,
+});
+
+function writeFile(name: string, content: string | Uint8Array): string {
+  const filePath = path.join(workDir, name);
+  fs.writeFileSync(filePath, content);
+  return filePath;
+}
+
+async function record(filePath: string, result: object): Promise<void> {
+  const key = fixtureKey(await readParseInput(filePath));
+  fs.writeFileSync(path.join(fixturesDir, `${key}.json`), JSON.stringify(result));
+}
+
+async function pdfWithPages(count: number): Promise<Uint8Array> {
+  const doc = await PDFDocument.create();
+  const font = await doc.embedFont(StandardFonts.Helvetica);
+  for (let i = 0; i < count; i++) doc.addPage([200, 200]).drawText(`Page ${i + 1}`, { x: 20, y: 100, font });
+  return doc.save();
+}
+
+before(() => {
+  assert.equal(config.parserProvider, 'fixture');
+});
+
+after(() => {
+  fs.rmSync(fixturesDir, { recursive: true, force: true });
+  fs.rmSync(workDir, { recursive: true, force: true });
+});
+
+test('replays the default recording for an unrecorded document', async () => {
+  const streamed: string[] = [];
+  const result = await parseDocument(writeFile('unrecorded.txt', 'Some wine list'), w => streamed.push(w.name));
+
+  const recorded = JSON.parse(fs.readFileSync(path.join(fixturesDir, 'default.json'), 'utf-8'));
+  assert.equal(result.currency, recorded.currency);
+  assert.equal(result.wines.length, recorded.wines.length);
+  assert.deepEqual(streamed, result.wines.map(w => w.name));
+});
+
+test('replays a recording made for the document, validating every wine', async () => {
+  const filePath = writeFile('recorded.txt', 'Rioja list');
+  await record(filePath, {
+    currency: 'eur',
+    wines: [wine('Viña Tondonia Reserva', '62,50'), wine('No Price Crianza', null), { rawText: 'illegible' }],
+  });
+
+  const result = await parseDocument(filePath);
+  assert.equal(result.currency, 'EUR');
+  assert.deepEqual(result.wines.map(w => [w.name, w.restaurantPrice]), [['Viña Tondonia Reserva', 62.5]]);
+  assert.deepEqual(result.rejected?.map(r => r.reason), ['No price', 'No wine name']);
+});
+
+test('flags PDF pages priced in a different currency from the rest', async t => {
+  const pagesPerChunk = config.parsePagesPerChunk;
+  t.after(() => {
+    config.parsePagesPerChunk = pagesPerChunk;
+  });
+  config.parsePagesPerChunk = 2;
+  const data = await pdfWithPages(6);
+  const chunks = (await splitPdf(Buffer.from(data), config.parsePagesPerChunk))!;
+  const currencies = ['GBP', 'EUR', 'GBP'];
+  chunks.forEach((chunk, i) => {
+    const key = fixtureKey({ kind: 'pdf', data: chunk.data });
+    fs.writeFileSync(path.join(fixturesDir, `${key}.json`), JSON.stringify({
+      currency: currencies[i],
+      wines: [{ ...wine(`Wine on pages ${chunk.firstPage}-${chunk.lastPage}`, 40 + i), sourcePage: 1 }],
+    }));
+  });
+
+  const result = await parseDocument(writeFile('chunked.pdf', data));
+  assert.equal(result.currency, 'GBP');
+  assert.deepEqual(result.wines.map(w => w.sourcePage), [1, 3, 5]);
+  assert.equal(result.failures?.length, 1);
+  assert.equal(result.failures?.[0].pages, '3-4');
+  assert.match(result.failures![0].error, /Priced in EUR/);
+});
+
+test('imports CSV prices written with either separator convention, reporting rows without one', async () => {
+  const filePath = writeFile('list.csv', [
+    'Wine;Producer;Vintage;Price',
+    'Chablis;Moreau;2021;"12,50 €"',
+    'Barolo;Conterno;2016;"1.234,00 €"',
+    'Champagne;Krug;NV;"1,250.00"',
+    'Rioja;Tondonia;2012;48/96',
+    'Sancerre;Vacheron;2022;POA',
+  ].join('\n'));
+
+  const result = await parseDocument(filePath);
+  assert.deepEqual(result.wines.map(w => w.restaurantPrice), [12.5, 1234, 1250, 48]);
+  assert.equal(result.wines[3].warnings.length, 1);
+  assert.deepEqual(result.rejected, [{ rawText: 'Sancerre, Vacheron, 2022, POA', reason: 'No price' }]);
+});
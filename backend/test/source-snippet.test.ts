@@ -0,0 +1,54 @@
+import { test, after } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { renderSourceSnippet } from '../src/services/source-snippet.js';
+
+const workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'snippet-test-'));
+
+after(() => {
+  fs.rmSync(workDir, { recursive: true, force: true });
+});
+
+// The headers of a JPEG stored `width` x `height` with an EXIF orientation — enough for image-size
+function jpegHeaders(width: number, height: number, orientation: number): Buffer {
+  const exif = Buffer.from([
+    ...Buffer.from('Exif\0\0'),
+    0x4d, 0x4d, 0x00, 0x2a, 0x00, 0x00, 0x00, 0x08, // big-endian TIFF header, first IFD at 8
+    0x00, 0x01, // one entry: Orientation, SHORT, count 1
+    0x01, 0x12, 0x00, 0x03, 0x00, 0x00, 0x00, 0x01, 0x00, orientation, 0x00, 0x00,
+    0x00, 0x00, 0x00, 0x00, // no next IFD
+  ]);
+  return Buffer.from([
+    0xff, 0xd8,
+    0xff, 0xe1, 0x00, exif.length + 2, ...exif,
+    0xff, 0xc0, 0x00, 0x11, 0x08, height >> 8, height & 0xff, width >> 8, width & 0xff,
+    0x03, 0x01, 0x22, 0x00, 0x02, 0x11, 0x01, 0x03, 0x11, 0x01,
+    0xff, 0xd9,
+  ]);
+}
+
+async function svgFor(orientation: number, mode: 'crop' | 'highlight'): Promise<string> {
+  const filePath = path.join(workDir, `photo-${orientation}.jpg`);
+  fs.writeFileSync(filePath, jpegHeaders(400, 300, orientation));
+  const box = { x: 0.25, y: 0.5, width: 0.5, height: 0.25 };
+  return (await renderSourceSnippet(filePath, '.jpg', 1, box, mode)).body.toString();
+}
+
+test('places the highlight on an upright photo', async () => {
+  const svg = await svgFor(1, 'highlight');
+  assert.match(svg, /viewBox="0 0 400 300"/);
+  assert.match(svg, /<image [^>]*width="400" height="300"/);
+  assert.match(svg, /<rect x="100" y="150" width="200" height="75"/);
+});
+
+test('turns the dimensions of a photo taken sideways', async () => {
+  const svg = await svgFor(6, 'highlight');
+  assert.match(svg, /viewBox="0 0 300 400"/);
+  assert.match(svg, /<image [^>]*width="300" height="400"/);
+  assert.match(svg, /<rect x="75" y="200" width="150" height="100"/);
+
+  // Cropped to the entry plus a 4% margin of the upright page
+  assert.match(await svgFor(8, 'crop'), /viewBox="63 184 174 132"/);
+});
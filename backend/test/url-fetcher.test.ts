@@ -0,0 +1,89 @@
+import { test, before, after, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import http from 'http';
+import type { AddressInfo } from 'net';
+import { config } from '../src/config.js';
+import { fetchWineListDocument } from '../src/services/url-fetcher.js';
+
+// A local static server standing in for a restaurant's website
+const PAGES: Record<string, { type: string; body: string } | { redirect: string }> = {
+  '/list.pdf': { type: 'application/pdf', body: '%PDF-1.4\n% wine list\n' },
+  '/menu': { type: 'text/html', body: '<html><body>Chablis 2021 ... 48</body></html>' },
+  '/list%E0.pdf': { type: 'application/pdf', body: '%PDF-1.4\n% a malformed escape in the name\n' },
+  '/download': { type: 'application/octet-stream', body: '%PDF-1.4\n% served without a type\n' },
+  '/logo.gif': { type: 'image/gif', body: 'GIF89a' },
+  '/moved': { redirect: '/list.pdf' },
+  '/loop': { redirect: '/loop' },
+};
+
+let server: http.Server;
+let base: string;
+
+before(async () => {
+  config.uploadsDir = fs.mkdtempSync(path.join(os.tmpdir(), 'url-fetcher-test-'));
+  server = http.createServer((req, res) => {
+    const page = PAGES[req.url ?? ''];
+    if (!page) {
+      res.writeHead(404).end();
+    } else if ('redirect' in page) {
+      res.writeHead(302, { Location: page.redirect }).end();
+    } else {
+      res.writeHead(200, { 'Content-Type': page.type }).end(page.body);
+    }
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(() => {
+  server.close();
+  fs.rmSync(config.uploadsDir, { recursive: true, force: true });
+});
+
+beforeEach(() => {
+  config.urlFetchAllowPrivate = true;
+});
+
+test('downloads a PDF into the uploads directory', async () => {
+  const doc = await fetchWineListDocument(`${base}/list.pdf`);
+  assert.equal(doc.originalname, 'list.pdf');
+  assert.equal(path.dirname(doc.path), config.uploadsDir);
+  assert.match(fs.readFileSync(doc.path, 'utf-8'), /^%PDF-/);
+});
+
+test('names web pages and sniffs untyped documents', async () => {
+  assert.equal((await fetchWineListDocument(`${base}/menu`)).originalname, 'menu.html');
+  assert.equal((await fetchWineListDocument(`${base}/download`)).originalname, 'download.pdf');
+  assert.equal((await fetchWineListDocument(`${base}/list%E0.pdf`)).originalname, 'list%E0.pdf');
+});
+
+test('follows redirects, up to a limit', async () => {
+  assert.match(fs.readFileSync((await fetchWineListDocument(`${base}/moved`)).path, 'utf-8'), /^%PDF-/);
+  await assert.rejects(fetchWineListDocument(`${base}/loop`), /redirects/);
+});
+
+test('rejects unsupported content and HTTP errors', async () => {
+  await assert.rejects(fetchWineListDocument(`${base}/logo.gif`), /Unsupported content type: image\/gif/);
+  await assert.rejects(fetchWineListDocument(`${base}/missing`), /HTTP 404/);
+  await assert.rejects(fetchWineListDocument('ftp://example.com/list.pdf'), /Only http and https/);
+});
+
+test('refuses localhost and private networks unless allowed', async () => {
+  config.urlFetchAllowPrivate = false;
+  for (const url of [
+    `${base}/list.pdf`,
+    `${base.replace('127.0.0.1', 'localhost')}/list.pdf`, // checked as the connection is made
+    'http://localhost/',
+    'http://169.254.169.254/latest/meta-data/',
+    'http://10.1.2.3/',
+    'http://192.168.0.1/',
+    'http://[::1]/',
+    'http://[::ffff:127.0.0.1]/',
+    'http://[fd00:ec2::254]/',
+  ]) {
+    await assert.rejects(fetchWineListDocument(url), /not allowed/, url);
+  }
+});
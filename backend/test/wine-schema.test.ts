@@ -0,0 +1,21 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { validateWineEdit } from '../src/services/wine-schema.js';
+
+test('coerces edited values like parsed ones', () => {
+  assert.deepEqual(
+    validateWineEdit({ name: ' Chablis ', vintage: '2021', restaurantPrice: '48,50 €', bottleSizeMl: '750ml', glassPrice: '', pourSizeMl: null }),
+    { name: 'Chablis', vintage: 2021, restaurantPrice: 48.5, bottleSizeMl: 750, glassPrice: null, pourSizeMl: null }
+  );
+  assert.deepEqual(validateWineEdit({ vintage: 'NV' }), { vintage: null });
+});
+
+test('refuses edits that would need a guess or leave the wine unpriced', () => {
+  assert.equal(validateWineEdit({ bottleSizeMl: 0 }), 'Bottle size of 0ml is implausible');
+  assert.equal(validateWineEdit({ bottleSizeMl: 'big' }), 'Bottle size "big" not understood');
+  assert.equal(validateWineEdit({ restaurantPrice: null }), 'Price is required');
+  assert.equal(validateWineEdit({ restaurantPrice: 0 }), 'Price "0" must be above zero');
+  assert.equal(validateWineEdit({ glassPrice: '12/15' }), 'Glass price "12/15" read as 12');
+  assert.equal(validateWineEdit({ vintage: 2099 }), 'Vintage "2099" not understood; treated as non-vintage');
+  assert.equal(validateWineEdit({ name: '  ' }), 'Name must not be empty');
+});
@@ -1,28 +1,23 @@
-import { useState, useEffect } from 'react';
-import UploadZone from './components/UploadZone.tsx';
+import { useState, useEffect, useRef } from 'react';
+import UploadZone, { ACCEPT, validateFiles } from './components/UploadZone.tsx';
+import UrlImportForm from './components/UrlImportForm.tsx';
 import WineTable from './components/WineTable.tsx';
+import RecommendationPanel from './components/RecommendationPanel.tsx';
+import MarkupSummaryPanel from './components/MarkupSummaryPanel.tsx';
 import { useWineSession } from './hooks/useWineSession.ts';
+import type { ScoringProfile } from './types/wine.ts';
 
 const API = import.meta.env.VITE_API_URL || '/api';
 
+// Shown until the first wine arrives; after that the table itself fills in as the list is read
 function ParsingProgress() {
   const [elapsed, setElapsed] = useState(0);
-  const steps = [
-    { label: 'Uploading image...', at: 0 },
-    { label: 'Reading wine list...', at: 2 },
-    { label: 'Extracting wine names & prices...', at: 6 },
-    { label: 'Identifying vintages & regions...', at: 12 },
-    { label: 'Almost done...', at: 20 },
-  ];
 
   useEffect(() => {
     const t = setInterval(() => setElapsed(e => e + 1), 1000);
     return () => clearInterval(t);
   }, []);
 
-  const currentStep = [...steps].reverse().find(s => elapsed >= s.at) || steps[0];
-  const fakePct = Math.min(90, Math.round(50 * (1 - Math.exp(-elapsed / 10)) + elapsed * 1.5));
-
   return (
     <div className="max-w-md mx-auto py-16 animate-fade-in">
       <div className="card p-8 border-wine-200/50 bg-wine-50/30">
@@ -32,24 +27,81 @@ function ParsingProgress() {
           </div>
         </div>
         <p className="text-center text-lg font-semibold text-slate-800 mb-1">
-          {currentStep.label}
+          Reading wine list...
         </p>
         <p className="text-center text-xs text-slate-400 mb-5 tabular-nums">
-          {elapsed}s elapsed
+          {elapsed}s elapsed &middot; wines will appear as soon as they are found
         </p>
         <div className="w-full bg-wine-200/40 rounded-full h-1.5 overflow-hidden">
-          <div
-            className="bg-wine-500 h-full rounded-full transition-all duration-1000 ease-out"
-            style={{ width: `${fakePct}%` }}
-          />
+          <div className="bg-wine-500 h-full w-1/3 rounded-full animate-pulse" />
         </div>
       </div>
     </div>
   );
 }
 
+function AddPagesButton({ onAdd, disabled }: { onAdd: (files: File[]) => void; disabled: boolean }) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [fileError, setFileError] = useState<string | null>(null);
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    e.target.value = '';
+    if (files.length === 0) return;
+    const err = validateFiles(files);
+    setFileError(err);
+    if (!err) onAdd(files);
+  };
+
+  return (
+    <span className="inline-flex items-center gap-2">
+      {fileError && <span className="text-xs text-red-600">{fileError}</span>}
+      <input ref={inputRef} type="file" className="hidden" multiple accept={ACCEPT} onChange={handleChange} />
+      <button
+        onClick={() => inputRef.current?.click()}
+        disabled={disabled}
+        className="btn-secondary text-xs py-1.5 px-3"
+      >
+        <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+        </svg>
+        Add pages
+      </button>
+    </span>
+  );
+}
+
+// Value scores are recomputed on the server from the data already looked up
+function ScoringProfileSelect({ profiles, value, onChange }: {
+  profiles: ScoringProfile[];
+  value: string;
+  onChange: (name: string) => void;
+}) {
+  if (profiles.length === 0) return null;
+  const current = profiles.find(p => p.name === value);
+
+  return (
+    <label className="inline-flex items-center gap-1.5 text-xs text-slate-500" title={current?.description}>
+      Scoring
+      <select
+        value={value}
+        onChange={e => onChange(e.target.value)}
+        className="rounded-lg border border-slate-200 bg-white px-2 py-1 text-xs font-medium text-slate-700 focus:outline-none focus:ring-2 focus:ring-wine-300"
+      >
+        {profiles.map(p => (
+          <option key={p.name} value={p.name} title={p.description}>{p.label}</option>
+        ))}
+      </select>
+    </label>
+  );
+}
+
 export default function App() {
-  const { session, uploading, error, upload, startLookup, editWine, reset } = useWineSession();
+  const {
+    session, uploading, error, budgetWarning, profiles,
+    upload, importUrl, addFiles, startLookup, cancelLookup, editWine, refreshWine, chooseMatch, changeProfile,
+    getRecommendations, getMarkupSummary, reset,
+  } = useWineSession();
 
   return (
     <div className="max-w-6xl mx-auto px-4 py-8">
@@ -69,6 +121,7 @@ export default function App() {
       {!session || (session.status === 'error' && session.wines.length === 0) ? (
         <div className="max-w-xl mx-auto animate-fade-in">
           <UploadZone onUpload={upload} uploading={uploading} />
+          <UrlImportForm onImport={importUrl} disabled={uploading} />
           {error && (
             <div className="mt-4 flex items-start gap-2 p-3 bg-red-50 border border-red-200 rounded-xl text-red-700 text-sm animate-fade-in">
               <svg className="w-5 h-5 shrink-0 mt-0.5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
@@ -86,7 +139,7 @@ export default function App() {
             </div>
           )}
         </div>
-      ) : session.status === 'parsing' ? (
+      ) : session.status === 'parsing' && session.wines.length === 0 ? (
         <ParsingProgress />
       ) : (
         <div className="animate-fade-in">
@@ -101,19 +154,122 @@ export default function App() {
               </svg>
               New list
             </button>
-            {session.status === 'complete' && (
-              <a
-                href={`${API}/wines/${session.id}/export`}
-                className="btn-secondary text-xs py-1.5 px-3"
-              >
-                <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
-                </svg>
-                Download CSV
-              </a>
-            )}
+            <div className="flex items-center gap-2">
+              <ScoringProfileSelect profiles={profiles} value={session.scoringProfile} onChange={changeProfile} />
+              <AddPagesButton
+                onAdd={addFiles}
+                disabled={uploading || session.status === 'parsing' || session.status === 'looking_up'}
+              />
+              {(session.status === 'complete' || session.status === 'cancelled') && (
+                <>
+                  <a
+                    href={`${API}/wines/${session.id}/export`}
+                    className="btn-secondary text-xs py-1.5 px-3"
+                  >
+                    <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
+                    </svg>
+                    Download CSV
+                  </a>
+                  <a
+                    href={`${API}/wines/${session.id}/export?format=json`}
+                    className="btn-secondary text-xs py-1.5 px-3"
+                    title="Every wine with its full score breakdown"
+                  >
+                    JSON
+                  </a>
+                </>
+              )}
+            </div>
           </div>
 
+          {session.parseInProgress && (
+            <div className="mb-4 flex items-center gap-2 p-3 bg-wine-50 border border-wine-200 rounded-xl text-wine-800 text-sm">
+              <span className="inline-block w-4 h-4 border-2 border-wine-400 border-t-transparent rounded-full animate-spin" />
+              <span>Reading the wine list... {session.wines.length} wines so far, more are added as they are found.</span>
+            </div>
+          )}
+
+          {error && (
+            <div className="mb-4 flex items-start gap-2 p-3 bg-red-50 border border-red-200 rounded-xl text-red-700 text-sm">
+              <span>{error}</span>
+            </div>
+          )}
+
+          {session.parseFailures.length > 0 && (
+            <div className="mb-4 flex items-start gap-2 p-3 bg-amber-50 border border-amber-200 rounded-xl text-amber-800 text-sm">
+              <svg className="w-5 h-5 shrink-0 mt-0.5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z" />
+              </svg>
+              <div>
+                <p className="font-medium">Some parts of the list could not be read cleanly — wines from them may be missing or mispriced:</p>
+                <ul className="mt-1 space-y-0.5 text-xs">
+                  {session.parseFailures.map((f, i) => (
+                    <li key={i}>
+                      {f.sourceFile ?? 'Upload'}{f.pages ? `, pages ${f.pages}` : ''}: {f.error}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            </div>
+          )}
+
+          {session.parseReport.rejected.length > 0 && (
+            <details className="mb-4 p-3 bg-amber-50 border border-amber-200 rounded-xl text-amber-800 text-sm">
+              <summary className="cursor-pointer font-medium">
+                {session.parseReport.rejected.length} of {session.parseReport.extracted} menu entries were skipped (no usable name or price)
+              </summary>
+              <ul className="mt-2 space-y-0.5 text-xs">
+                {session.parseReport.rejected.map((r, i) => (
+                  <li key={i}>
+                    <span className="font-medium">{r.reason}</span>{r.sourceFile ? ` (${r.sourceFile})` : ''}: {r.rawText}
+                  </li>
+                ))}
+              </ul>
+            </details>
+          )}
+
+          {budgetWarning && session.status !== 'looking_up' && (
+            <div className="mb-4 flex items-start gap-2 p-3 bg-amber-50 border border-amber-200 rounded-xl text-amber-800 text-sm">
+              <svg className="w-5 h-5 shrink-0 mt-0.5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z" />
+              </svg>
+              <div className="flex-1">
+                <p className="font-medium">
+                  {session.budgetPaused
+                    ? 'Lookup paused — the wines read since it started would go over the API budget:'
+                    : 'Prices haven\'t been looked up yet — this would go over the API budget:'}
+                </p>
+                <ul className="mt-1 space-y-0.5 text-xs">
+                  {budgetWarning.map((warning, i) => <li key={i}>{warning}</li>)}
+                </ul>
+              </div>
+              <button
+                onClick={() => startLookup(true)}
+                className="btn-secondary text-xs py-1.5 px-3 shrink-0"
+              >
+                Look up anyway
+              </button>
+            </div>
+          )}
+
+          {session.status === 'cancelled' && !session.budgetPaused && (
+            <div className="mb-4 flex items-start gap-2 p-3 bg-slate-100 border border-slate-200 rounded-xl text-slate-600 text-sm">
+              <span>
+                Lookup stopped. {session.wines.filter(w => w.lookupStatus === 'pending').length} wines were not looked up; results so far are shown below.
+              </span>
+            </div>
+          )}
+
+          {session.status !== 'error' && session.error && (
+            <div className="mb-4 flex items-start gap-2 p-3 bg-amber-50 border border-amber-200 rounded-xl text-amber-800 text-sm">
+              <svg className="w-5 h-5 shrink-0 mt-0.5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z" />
+              </svg>
+              <span>{session.error}</span>
+            </div>
+          )}
+
           {session.status === 'error' && session.wines.length > 0 && (
             <div className="mb-4 flex items-start gap-2 p-3 bg-amber-50 border border-amber-200 rounded-xl text-amber-800 text-sm">
               <svg className="w-5 h-5 shrink-0 mt-0.5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
@@ -123,13 +279,31 @@ export default function App() {
             </div>
           )}
 
+          <RecommendationPanel
+            wines={session.wines}
+            currency={session.currency || 'USD'}
+            scoringProfile={session.scoringProfile}
+            getRecommendations={getRecommendations}
+          />
+
+          <MarkupSummaryPanel
+            wines={session.wines}
+            currency={session.currency || 'USD'}
+            getMarkupSummary={getMarkupSummary}
+          />
+
           <WineTable
             wines={session.wines}
             status={session.status}
+            parseInProgress={session.parseInProgress}
             currency={session.currency || 'USD'}
+            priceTiers={session.priceTiers}
             sessionId={session.id}
             onStartLookup={startLookup}
+            onCancelLookup={cancelLookup}
             onEditWine={editWine}
+            onRefreshWine={refreshWine}
+            onChooseMatch={chooseMatch}
           />
         </div>
       )}
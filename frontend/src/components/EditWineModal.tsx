@@ -4,17 +4,28 @@ import type { WineValueResult } from '../types/wine.ts';
 interface Props {
   wine: WineValueResult;
   index: number;
+  sourceUrl: string;
   onSave: (index: number, updates: Record<string, unknown>) => void;
   onClose: () => void;
 }
 
+const FORMAT_OPTIONS: [number, string][] = [
+  [187, 'Split (187ml)'],
+  [375, 'Half bottle (375ml)'],
+  [500, '50cl / carafe'],
+  [750, 'Bottle (750ml)'],
+  [1500, 'Magnum (1.5L)'],
+  [3000, 'Double magnum (3L)'],
+];
+
 interface FormErrors {
   name?: string;
   vintage?: string;
   price?: string;
+  glassPrice?: string;
 }
 
-function validate(name: string, vintage: string, price: string): FormErrors {
+function validate(name: string, vintage: string, price: string, glassPrice: string): FormErrors {
   const errors: FormErrors = {};
 
   if (!name.trim()) {
@@ -33,19 +44,28 @@ function validate(name: string, vintage: string, price: string): FormErrors {
     errors.price = 'Enter a valid price.';
   }
 
+  if (glassPrice) {
+    const glassNum = parseFloat(glassPrice);
+    if (isNaN(glassNum) || glassNum <= 0) {
+      errors.glassPrice = 'Enter a valid price.';
+    }
+  }
+
   return errors;
 }
 
-export default function EditWineModal({ wine, index, onSave, onClose }: Props) {
+export default function EditWineModal({ wine, index, sourceUrl, onSave, onClose }: Props) {
   const [name, setName] = useState(wine.name);
   const [producer, setProducer] = useState(wine.producer);
   const [vintage, setVintage] = useState(wine.vintage?.toString() ?? '');
   const [price, setPrice] = useState(wine.restaurantPrice.toString());
+  const [bottleSizeMl, setBottleSizeMl] = useState(wine.bottleSizeMl);
+  const [glassPrice, setGlassPrice] = useState(wine.glassPrice?.toString() ?? '');
   const [errors, setErrors] = useState<FormErrors>({});
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    const formErrors = validate(name, vintage, price);
+    const formErrors = validate(name, vintage, price, glassPrice);
     if (Object.keys(formErrors).length > 0) {
       setErrors(formErrors);
       return;
@@ -55,6 +75,8 @@ export default function EditWineModal({ wine, index, onSave, onClose }: Props) {
       producer,
       vintage: vintage ? parseInt(vintage) : null,
       restaurantPrice: parseFloat(price),
+      bottleSizeMl,
+      glassPrice: glassPrice ? parseFloat(glassPrice) : null,
     });
     onClose();
   };
@@ -125,9 +147,48 @@ export default function EditWineModal({ wine, index, onSave, onClose }: Props) {
               {errors.price && <p className="text-xs text-red-500 mt-1">{errors.price}</p>}
             </div>
           </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-1.5">Format</label>
+              <select
+                value={bottleSizeMl}
+                onChange={e => setBottleSizeMl(parseInt(e.target.value, 10))}
+                className="input-field"
+              >
+                {!FORMAT_OPTIONS.some(([ml]) => ml === wine.bottleSizeMl) && (
+                  <option value={wine.bottleSizeMl}>{wine.bottleSizeMl}ml</option>
+                )}
+                {FORMAT_OPTIONS.map(([ml, label]) => (
+                  <option key={ml} value={ml}>{label}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-1.5">Glass Price</label>
+              <input
+                type="number"
+                value={glassPrice}
+                onChange={e => { setGlassPrice(e.target.value); setErrors(prev => ({ ...prev, glassPrice: undefined })); }}
+                step="0.01"
+                placeholder="—"
+                className={`input-field ${errors.glassPrice ? 'border-red-400 focus:ring-red-400/40 focus:border-red-400' : ''}`}
+              />
+              {errors.glassPrice && <p className="text-xs text-red-500 mt-1">{errors.glassPrice}</p>}
+            </div>
+          </div>
           <p className="text-xs text-slate-400 truncate">
-            Original: {wine.rawText}
+            Original{wine.sourceFile ? ` (${wine.sourceFile})` : ''}: {wine.rawText}
           </p>
+          {wine.sourcePage !== null && (
+            <a
+              href={`${sourceUrl}?mode=highlight`}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="inline-block text-xs text-wine-600 hover:text-wine-700 underline underline-offset-2"
+            >
+              View page {wine.sourcePage} of the menu
+            </a>
+          )}
           <div className="flex gap-3 pt-1">
             <button type="submit" className="btn-primary flex-1">
               Save & Re-lookup
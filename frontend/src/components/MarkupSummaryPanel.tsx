@@ -0,0 +1,163 @@
+import { useState, useEffect } from 'react';
+import type { MarkupOutlier, MarkupStats, MarkupSummary, WineValueResult } from '../types/wine.ts';
+import { STYLE_LABELS, markupColor } from './WineTable.tsx';
+import { currencySymbol, priceTierLabel } from '../utils/currency.ts';
+
+interface Props {
+  wines: WineValueResult[];
+  currency: string;
+  getMarkupSummary: () => Promise<MarkupSummary>;
+}
+
+interface GroupRow {
+  label: string;
+  stats: MarkupStats | null;
+}
+
+const pct = (n: number) => `${Math.round(n)}%`;
+
+// One group's median, with its middle half drawn as a band on a shared 0–`scale`% axis
+function GroupRows({ title, rows, scale }: { title: string; rows: GroupRow[]; scale: number }) {
+  if (rows.length === 0) return null;
+  const at = (n: number) => `${Math.min(100, Math.max(0, (n / scale) * 100))}%`;
+
+  return (
+    <div>
+      <h3 className="text-xs font-semibold uppercase tracking-wide text-slate-400 mb-1.5">{title}</h3>
+      <ul className="space-y-1.5">
+        {rows.map(({ label, stats }) => (
+          <li key={label} className="text-xs" title={stats ? `Middle half ${pct(stats.p25)}–${pct(stats.p75)}, range ${pct(stats.min)}–${pct(stats.max)}` : undefined}>
+            <div className="flex justify-between gap-2">
+              <span className="truncate text-slate-700">
+                {label} <span className="text-slate-400">({stats?.count ?? 0})</span>
+              </span>
+              {stats
+                ? <span className={`font-medium tabular-nums ${markupColor(stats.median).text}`}>{pct(stats.median)}</span>
+                : <span className="text-slate-300">&mdash;</span>}
+            </div>
+            {stats && (
+              <div className="relative h-1.5 mt-0.5 rounded-full bg-slate-100">
+                <div
+                  className={`absolute h-full rounded-full ${markupColor(stats.median).bg}`}
+                  style={{ left: at(stats.p25), width: `calc(${at(stats.p75)} - ${at(stats.p25)})` }}
+                />
+                <div className={`absolute h-full w-0.5 ${markupColor(stats.median).bar}`} style={{ left: at(stats.median) }} />
+              </div>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+function OutlierList({ title, wines, sym }: { title: string; wines: MarkupOutlier[]; sym: string }) {
+  if (wines.length === 0) return null;
+  return (
+    <div>
+      <h3 className="text-xs font-semibold uppercase tracking-wide text-slate-400 mb-1.5">{title}</h3>
+      <ul className="space-y-1">
+        {wines.map(w => (
+          <li key={w.index} className="flex justify-between gap-2 text-xs">
+            <span className="truncate text-slate-700">
+              {w.name}
+              <span className="text-slate-400"> &middot; {w.producer} {w.vintage ?? 'NV'} &middot; {sym}{w.restaurantPrice}</span>
+            </span>
+            <span className={`font-medium tabular-nums ${markupColor(w.markupPercent).text}`}>{pct(w.markupPercent)}</span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+export default function MarkupSummaryPanel({ wines, currency, getMarkupSummary }: Props) {
+  const [open, setOpen] = useState(false);
+  const [summary, setSummary] = useState<MarkupSummary | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const sym = currencySymbol(currency);
+
+  // Summarise again only when a markup or a wine's tier changes
+  const markups = wines.map(w => `${w.markupPercent ?? ''}:${w.priceTier ?? ''}:${w.valueScore === null ? '' : 's'}`).join(',');
+  useEffect(() => {
+    let cancelled = false;
+    getMarkupSummary()
+      .then(body => {
+        if (cancelled) return;
+        setSummary(body);
+        setError(null);
+      })
+      .catch(err => {
+        if (!cancelled) setError((err as Error).message);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [getMarkupSummary, markups]);
+
+  if (!summary?.overall) return null;
+  const { coverage, overall, byTier, byRegion, byStyle, outliers } = summary;
+
+  // Bands share one axis, wide enough for every group's upper quartile
+  const groups = [...byTier.map(g => g.stats), ...byRegion.map(g => g.stats), ...byStyle.map(g => g.stats)];
+  const scale = Math.max(100, ...groups.map(s => s?.p75 ?? 0)) * 1.1;
+
+  return (
+    <div className="card mb-4">
+      <button onClick={() => setOpen(!open)} className="w-full flex flex-wrap items-center justify-between gap-2 p-4 text-left">
+        <span className="text-sm font-semibold text-slate-800">Restaurant markup</span>
+        <span className="flex items-center gap-3 text-xs text-slate-500">
+          <span>
+            Median <span className={`font-semibold tabular-nums ${markupColor(overall.median).text}`}>{pct(overall.median)}</span> over retail
+          </span>
+          <span>{coverage.priced} of {coverage.wines} wines priced &middot; {Math.round(coverage.scoredShare * 100)}% scored</span>
+          <svg className={`w-4 h-4 transition-transform ${open ? 'rotate-180' : ''}`} fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+          </svg>
+        </span>
+      </button>
+
+      {open && (
+        <div className="px-4 pb-4 space-y-4 border-t border-slate-100 pt-3">
+          {error && <p className="text-xs text-red-600">{error}</p>}
+
+          <dl className="grid grid-cols-2 sm:grid-cols-5 gap-3 text-xs">
+            {[
+              ['Median', pct(overall.median)],
+              ['Mean', pct(overall.mean)],
+              ['Middle half', `${pct(overall.p25)}–${pct(overall.p75)}`],
+              ['Range', `${pct(overall.min)}–${pct(overall.max)}`],
+              ['Spread (SD)', `±${pct(overall.stdDev)}`],
+            ].map(([label, value]) => (
+              <div key={label}>
+                <dt className="text-slate-400">{label}</dt>
+                <dd className="text-sm font-semibold text-slate-800 tabular-nums">{value}</dd>
+              </div>
+            ))}
+          </dl>
+
+          <div className="grid gap-4 md:grid-cols-3">
+            <GroupRows
+              title="By price"
+              rows={byTier.length > 1 ? byTier.map(({ tier, stats }) => ({ label: priceTierLabel(tier, sym), stats })) : []}
+              scale={scale}
+            />
+            <GroupRows
+              title="By style"
+              rows={byStyle.map(({ style, stats }) => ({ label: style ? STYLE_LABELS[style] : 'Unknown style', stats }))}
+              scale={scale}
+            />
+            <GroupRows title="By region" rows={byRegion.map(({ region, stats }) => ({ label: region, stats }))} scale={scale} />
+          </div>
+
+          {(outliers.high.length > 0 || outliers.low.length > 0) && (
+            <div className="grid gap-4 md:grid-cols-2">
+              <OutlierList title="Marked up far more than the rest" wines={outliers.high} sym={sym} />
+              <OutlierList title="Marked up far less than the rest" wines={outliers.low} sym={sym} />
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
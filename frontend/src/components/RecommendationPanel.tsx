@@ -0,0 +1,144 @@
+import { useState, useEffect } from 'react';
+import type { RecommendationFilters, Recommendations, WineStyle, WineValueResult } from '../types/wine.ts';
+import { STYLE_LABELS } from './WineTable.tsx';
+import { currencySymbol } from '../utils/currency.ts';
+
+interface Props {
+  wines: WineValueResult[];
+  currency: string;
+  scoringProfile: string;
+  getRecommendations: (filters: Partial<RecommendationFilters>) => Promise<Recommendations>;
+}
+
+const TYPING_DELAY_MS = 300;
+const QUALITY_OPTIONS = [85, 88, 90, 93];
+const PICK_COUNTS = [3, 5, 10];
+
+// "Best-value reds under £120 from Burgundy"
+function describe(style: WineStyle | '', maxPrice: string, region: string, grape: string, sym: string): string {
+  const what = style ? `${STYLE_LABELS[style].toLowerCase()}${style === 'sparkling' ? ' wines' : 's'}` : 'wines';
+  return [
+    `Best-value ${what}`,
+    maxPrice && `under ${sym}${maxPrice}`,
+    region.trim() && `from ${region.trim()}`,
+    grape.trim() && `made with ${grape.trim()}`,
+  ].filter(Boolean).join(' ');
+}
+
+export default function RecommendationPanel({ wines, currency, scoringProfile, getRecommendations }: Props) {
+  const [style, setStyle] = useState<WineStyle | ''>('');
+  const [maxPrice, setMaxPrice] = useState('');
+  const [region, setRegion] = useState('');
+  const [grape, setGrape] = useState('');
+  const [minQuality, setMinQuality] = useState('');
+  const [limit, setLimit] = useState(PICK_COUNTS[0]);
+  const [result, setResult] = useState<Recommendations | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const sym = currencySymbol(currency);
+
+  // Ask again when a filter or any value score changes — not on every poll of the session
+  const scores = wines.map(w => w.valueScore ?? '').join(',');
+  useEffect(() => {
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      getRecommendations({
+        style: style || null,
+        maxPrice: maxPrice ? Number(maxPrice) : null,
+        region,
+        grape,
+        minQuality: minQuality ? Number(minQuality) : null,
+        limit,
+      })
+        .then(body => {
+          if (cancelled) return;
+          setResult(body);
+          setError(null);
+        })
+        .catch(err => {
+          if (!cancelled) setError((err as Error).message);
+        });
+    }, TYPING_DELAY_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [getRecommendations, style, maxPrice, region, grape, minQuality, limit, scores, scoringProfile]);
+
+  // Nothing to recommend until lookups have scored something
+  if (!wines.some(w => w.valueScore !== null)) return null;
+
+  const selectClass = 'rounded-lg border border-slate-200 bg-white px-2 py-1 text-xs text-slate-700 focus:outline-none focus:ring-2 focus:ring-wine-300';
+  const inputClass = `${selectClass} w-28 placeholder:text-slate-400`;
+
+  return (
+    <div className="card p-4 mb-4">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+        <h2 className="text-sm font-semibold text-slate-800">{describe(style, maxPrice, region, grape, sym)}</h2>
+        <div className="flex flex-wrap items-center gap-1.5">
+          <select value={style} onChange={e => setStyle(e.target.value as WineStyle | '')} className={selectClass} aria-label="Style">
+            <option value="">Any style</option>
+            {(Object.keys(STYLE_LABELS) as WineStyle[]).map(s => (
+              <option key={s} value={s}>{STYLE_LABELS[s]}</option>
+            ))}
+          </select>
+          <input
+            type="number"
+            min={0}
+            value={maxPrice}
+            onChange={e => setMaxPrice(e.target.value)}
+            placeholder={`Up to ${sym}`}
+            className={inputClass}
+            aria-label="Maximum price"
+          />
+          <input value={region} onChange={e => setRegion(e.target.value)} placeholder="Region" className={inputClass} aria-label="Region" />
+          <input value={grape} onChange={e => setGrape(e.target.value)} placeholder="Grape" className={inputClass} aria-label="Grape" />
+          <select value={minQuality} onChange={e => setMinQuality(e.target.value)} className={selectClass} aria-label="Minimum quality">
+            <option value="">Any quality</option>
+            {QUALITY_OPTIONS.map(q => <option key={q} value={q}>{q}+ points</option>)}
+          </select>
+          <select value={limit} onChange={e => setLimit(Number(e.target.value))} className={selectClass} aria-label="Number of picks">
+            {PICK_COUNTS.map(n => <option key={n} value={n}>Top {n}</option>)}
+          </select>
+        </div>
+      </div>
+
+      {error ? (
+        <p className="text-xs text-red-600">{error}</p>
+      ) : result && result.picks.length === 0 ? (
+        <p className="text-xs text-slate-500">
+          No looked-up wines match.
+          {result.unscored > 0 && ` ${result.unscored} matching wine${result.unscored === 1 ? ' has' : 's have'} no value score yet.`}
+        </p>
+      ) : result && (
+        <>
+          <ol className="divide-y divide-slate-100">
+            {result.picks.map(({ rank, index, wine, reason }) => (
+              <li key={index} className="flex items-start gap-3 py-2">
+                <span className="mt-0.5 w-6 h-6 shrink-0 rounded-full bg-wine-100 text-wine-700 text-xs font-bold flex items-center justify-center">
+                  {rank}
+                </span>
+                <div className="min-w-0 flex-1">
+                  <p className="text-sm text-slate-900 truncate">
+                    <span className="font-medium">{wine.name}</span>
+                    {wine.producer && <span className="text-slate-500"> &middot; {wine.producer}</span>}
+                    <span className="text-slate-400"> {wine.vintage ?? 'NV'}</span>
+                  </p>
+                  <p className="text-xs text-slate-500">{reason}</p>
+                </div>
+                <div className="text-right shrink-0">
+                  <p className="text-sm font-semibold text-slate-800 tabular-nums">{sym}{wine.restaurantPrice}</p>
+                  <p className="text-xs text-wine-700 tabular-nums">value {wine.valueScore}</p>
+                </div>
+              </li>
+            ))}
+          </ol>
+          {result.unscored > 0 && (
+            <p className="mt-2 text-xs text-slate-400">
+              {result.unscored} more matching wine{result.unscored === 1 ? ' has' : 's have'} no value score yet.
+            </p>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -1,7 +1,7 @@
 import { useState, useRef, type DragEvent } from 'react';
 
 interface Props {
-  onUpload: (file: File) => void;
+  onUpload: (files: File[]) => void;
   uploading: boolean;
 }
 
@@ -10,19 +10,37 @@ const ACCEPTED_TYPES = [
   'image/jpeg',
   'image/png',
   'image/webp',
+  'text/plain',
+  'text/csv',
+  'text/html',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
 ];
+const ACCEPTED_EXTENSIONS = ['pdf', 'jpg', 'jpeg', 'png', 'webp', 'docx', 'html', 'htm', 'csv', 'txt'];
 const MAX_SIZE_MB = 20;
 const MAX_SIZE_BYTES = MAX_SIZE_MB * 1024 * 1024;
+const MAX_FILES = 10;
+export const ACCEPT = ACCEPTED_EXTENSIONS.map(e => `.${e}`).join(',');
 
 function validateFile(file: File): string | null {
   if (!ACCEPTED_TYPES.includes(file.type)) {
     const ext = file.name.split('.').pop()?.toLowerCase();
-    if (!ext || !['pdf', 'jpg', 'jpeg', 'png', 'webp'].includes(ext)) {
-      return 'Please upload a PDF, JPG, PNG, or WebP file.';
+    if (!ext || !ACCEPTED_EXTENSIONS.includes(ext)) {
+      return `${file.name}: please upload a PDF, image, Word document, web page, CSV, or text file.`;
     }
   }
   if (file.size > MAX_SIZE_BYTES) {
-    return `File is too large (${(file.size / 1024 / 1024).toFixed(1)}MB). Maximum is ${MAX_SIZE_MB}MB.`;
+    return `${file.name} is too large (${(file.size / 1024 / 1024).toFixed(1)}MB). Maximum is ${MAX_SIZE_MB}MB.`;
+  }
+  return null;
+}
+
+export function validateFiles(files: File[]): string | null {
+  if (files.length > MAX_FILES) {
+    return `Too many files (${files.length}). Upload at most ${MAX_FILES} at a time.`;
+  }
+  for (const file of files) {
+    const error = validateFile(file);
+    if (error) return error;
   }
   return null;
 }
@@ -32,21 +50,21 @@ export default function UploadZone({ onUpload, uploading }: Props) {
   const [fileError, setFileError] = useState<string | null>(null);
   const inputRef = useRef<HTMLInputElement>(null);
 
-  const handleFile = (file: File) => {
-    const error = validateFile(file);
+  const handleFiles = (files: File[]) => {
+    if (files.length === 0) return;
+    const error = validateFiles(files);
     if (error) {
       setFileError(error);
       return;
     }
     setFileError(null);
-    onUpload(file);
+    onUpload(files);
   };
 
   const handleDrop = (e: DragEvent) => {
     e.preventDefault();
     setDragOver(false);
-    const file = e.dataTransfer.files[0];
-    if (file) handleFile(file);
+    handleFiles(Array.from(e.dataTransfer.files));
   };
 
   const handleDragOver = (e: DragEvent) => {
@@ -59,8 +77,8 @@ export default function UploadZone({ onUpload, uploading }: Props) {
   const handleClick = () => inputRef.current?.click();
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) handleFile(file);
+    handleFiles(Array.from(e.target.files ?? []));
+    e.target.value = '';
   };
 
   return (
@@ -84,7 +102,8 @@ export default function UploadZone({ onUpload, uploading }: Props) {
           ref={inputRef}
           type="file"
           className="hidden"
-          accept=".pdf,.jpg,.jpeg,.png,.webp"
+          multiple
+          accept={ACCEPT}
           onChange={handleFileChange}
         />
         <div className="text-slate-500">
@@ -102,7 +121,7 @@ export default function UploadZone({ onUpload, uploading }: Props) {
                 <span className="text-3xl" role="img" aria-label="wine glass">🍷</span>
               </div>
               <p className="text-lg font-semibold text-slate-800">Drop a wine list here</p>
-              <p className="text-sm mt-1.5 text-slate-400">PDF, JPG, PNG, or WebP &middot; max {MAX_SIZE_MB}MB</p>
+              <p className="text-sm mt-1.5 text-slate-400">PDF, photos, DOCX, HTML, CSV, or TXT &middot; up to {MAX_FILES} files, max {MAX_SIZE_MB}MB each</p>
               <p className="text-xs text-slate-300 mt-3 group-hover:text-slate-400 transition-colors">
                 or click to browse
               </p>
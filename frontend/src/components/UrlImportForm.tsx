@@ -0,0 +1,42 @@
+import { useState } from 'react';
+
+interface Props {
+  onImport: (url: string) => void;
+  disabled: boolean;
+}
+
+export default function UrlImportForm({ onImport, disabled }: Props) {
+  const [url, setUrl] = useState('');
+  const [urlError, setUrlError] = useState<string | null>(null);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const trimmed = url.trim();
+    if (!/^https?:\/\/\S+$/i.test(trimmed)) {
+      setUrlError('Enter a link starting with http:// or https://');
+      return;
+    }
+    setUrlError(null);
+    onImport(trimmed);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="mt-4">
+      <p className="text-xs text-slate-400 text-center mb-2">or paste a link to the restaurant's wine list</p>
+      <div className="flex gap-2">
+        <input
+          type="url"
+          value={url}
+          onChange={e => { setUrl(e.target.value); setUrlError(null); }}
+          placeholder="https://restaurant.com/wine-list.pdf"
+          className={`input-field ${urlError ? 'border-red-400 focus:ring-red-400/40 focus:border-red-400' : ''}`}
+          disabled={disabled}
+        />
+        <button type="submit" className="btn-secondary shrink-0" disabled={disabled || !url.trim()}>
+          Import
+        </button>
+      </div>
+      {urlError && <p className="text-xs text-red-500 mt-1">{urlError}</p>}
+    </form>
+  );
+}
@@ -1,8 +1,123 @@
+import { useState, useEffect, useRef, type ReactNode } from 'react';
+import type { PriorBasis, ScoreBreakdown, TierRank } from '../types/wine.ts';
+
 interface Props {
   score: number | null;
+  quality?: number | null; // the quality estimate the score is based on
+  uncertainty?: number | null;
+  tierRank?: TierRank | null; // rank among wines in the same price tier
+  tierLabel?: string; // that tier, e.g. "under £80"
+  breakdown?: ScoreBreakdown | null; // shown in a popover when the badge is clicked
+  currencySymbol?: string;
+}
+
+const PRIOR_BASIS_LABELS: Record<PriorBasis, string> = {
+  region: 'the average for its region on this list',
+  'price band': 'typical for its price',
+  default: 'a typical score',
+};
+
+const via = (source: string | null) => (source ? ` via ${source}` : '');
+const pct = (share: number) => `${Math.round(share * 100)}%`;
+
+// The value score worked through step by step, from the numbers the server used
+function BreakdownDetails({ b, sym }: { b: ScoreBreakdown; sym: string }) {
+  return (
+    <div className="space-y-2.5">
+      <p className="font-semibold text-slate-800">
+        Value score {b.valueScore}
+        {b.profile && <span className="font-normal text-slate-400"> &middot; {b.profile} profile</span>}
+      </p>
+
+      <div>
+        <p className="font-medium text-slate-700">Quality {b.quality} &plusmn;{b.qualityUncertainty}</p>
+        <ul className="mt-0.5 space-y-0.5 text-slate-500">
+          {b.critic && (
+            <li>Critic {b.critic.score}{via(b.critic.source)}{b.community && ` \u2014 ${pct(b.criticShare)} of quality`}</li>
+          )}
+          {b.community && (
+            <li>
+              Community {b.community.score}{via(b.community.source)} from{' '}
+              {b.community.reviewCount != null
+                ? `${b.community.reviewCount} reviews`
+                : `an unknown number of reviews (counted as ${b.community.reviewsCounted})`},
+              pulled toward {b.community.prior} ({PRIOR_BASIS_LABELS[b.community.priorBasis]}, worth {b.community.priorReviews} reviews)
+              {' '}&rarr; {b.community.adjusted}
+              {b.critic && ` \u2014 ${pct(1 - b.criticShare)} of quality`}
+            </li>
+          )}
+          {b.critic && b.community && (
+            <li>
+              Profile weights {pct(b.weights.critic / (b.weights.critic + b.weights.community))} critic /{' '}
+              {pct(b.weights.community / (b.weights.critic + b.weights.community))} community, adjusted for how sure each score is
+            </li>
+          )}
+          {b.belowFloor && <li className="text-red-600">Below the profile's quality floor of {b.qualityFloor}, so the score is 0</li>}
+        </ul>
+      </div>
+
+      <div>
+        <p className="font-medium text-slate-700">Markup {b.markupRatio}&times;</p>
+        <ul className="mt-0.5 space-y-0.5 text-slate-500">
+          <li>Menu {sym}{b.restaurantPrice} for {b.bottleSizeMl}ml</li>
+          <li>
+            Retail {sym}{b.retailPrice} per 750ml{via(b.retailSource)}
+            {b.bottleSizeMl !== 750 && <> = {sym}{b.retailForFormat} for {b.bottleSizeMl}ml</>}
+          </li>
+        </ul>
+      </div>
+
+      {!b.belowFloor && (
+        <p className="text-slate-600 tabular-nums">
+          {b.quality} &divide; {b.markupRatio}{b.markupExponent !== 1 && <sup>{b.markupExponent}</sup>} = {b.rawScore}
+          {b.clamped ? `, capped at ${b.clamped === 'max' ? 100 : 0}` : ''} &rarr; <span className="font-semibold">{b.valueScore}</span>
+        </p>
+      )}
+    </div>
+  );
 }
 
-export default function ValueBadge({ score }: Props) {
+function BreakdownPopover({ breakdown, sym, children }: { breakdown: ScoreBreakdown; sym: string; children: ReactNode }) {
+  const [open, setOpen] = useState(false);
+  const ref = useRef<HTMLDivElement>(null);
+
+  // Close on a click elsewhere or Escape
+  useEffect(() => {
+    if (!open) return;
+    const onMouseDown = (e: MouseEvent) => {
+      if (!ref.current?.contains(e.target as Node)) setOpen(false);
+    };
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') setOpen(false);
+    };
+    document.addEventListener('mousedown', onMouseDown);
+    document.addEventListener('keydown', onKeyDown);
+    return () => {
+      document.removeEventListener('mousedown', onMouseDown);
+      document.removeEventListener('keydown', onKeyDown);
+    };
+  }, [open]);
+
+  return (
+    <div ref={ref} className="relative inline-block">
+      <button onClick={() => setOpen(!open)} className="rounded-xl focus:outline-none focus:ring-2 focus:ring-wine-300" title="How is this worked out?">
+        {children}
+      </button>
+      {open && (
+        <div className="absolute right-0 top-full mt-2 z-30 w-80 card p-3 text-xs text-left shadow-lg">
+          <BreakdownDetails b={breakdown} sym={sym} />
+        </div>
+      )}
+    </div>
+  );
+}
+
+function ordinal(n: number): string {
+  const suffix = n % 100 >= 11 && n % 100 <= 13 ? 'th' : ['th', 'st', 'nd', 'rd'][n % 10] ?? 'th';
+  return `${n}${suffix}`;
+}
+
+export default function ValueBadge({ score, quality, uncertainty, tierRank, tierLabel, breakdown, currencySymbol = '' }: Props) {
   if (score == null) {
     return <span className="text-xs text-slate-400 tabular-nums">--</span>;
   }
@@ -34,8 +149,11 @@ export default function ValueBadge({ score }: Props) {
     label = 'Poor';
   }
 
-  return (
-    <div className={`inline-flex flex-col items-center justify-center w-14 h-14 rounded-xl ring-1 ${ringColor} ${bgColor}`}>
+  const box = (
+    <div
+      className={`inline-flex flex-col items-center justify-center w-14 h-14 rounded-xl ring-1 ${ringColor} ${bgColor}`}
+      title={quality != null && !breakdown ? `Quality estimate ${quality}${uncertainty != null ? ` \u00B1${uncertainty}` : ''} points` : undefined}
+    >
       <span className={`text-lg font-bold tabular-nums leading-none ${textColor}`}>
         {score}
       </span>
@@ -44,4 +162,22 @@ export default function ValueBadge({ score }: Props) {
       </span>
     </div>
   );
+
+  const badge = breakdown ? <BreakdownPopover breakdown={breakdown} sym={currencySymbol}>{box}</BreakdownPopover> : box;
+  if (!tierRank) return badge;
+
+  // Relative value: how this wine compares with what else the list offers at a similar price
+  return (
+    <div className="inline-flex flex-col items-center gap-1">
+      {badge}
+      <span
+        className={`text-[10px] font-semibold whitespace-nowrap px-1.5 py-0.5 rounded-full tabular-nums ${
+          tierRank.topPercent <= 10 ? 'bg-wine-600 text-white' : tierRank.topPercent <= 25 ? 'bg-wine-100 text-wine-700' : 'text-slate-400'
+        }`}
+        title={`${ordinal(tierRank.rank)} best value of ${tierRank.of} wines${tierLabel ? ` ${tierLabel}` : ''}`}
+      >
+        Top {tierRank.topPercent}%{tierLabel && tierRank.topPercent <= 25 ? ` ${tierLabel}` : ''}
+      </span>
+    </div>
+  );
 }
@@ -1,38 +1,90 @@
-import { useState, useMemo, useEffect } from 'react';
-import type { WineValueResult } from '../types/wine.ts';
+import { useState, useMemo, useEffect, Fragment } from 'react';
+import type { PriceTier, RefreshOptions, WineMatch, WineValueResult, WineStyle } from '../types/wine.ts';
 import ValueBadge from './ValueBadge.tsx';
 import EditWineModal from './EditWineModal.tsx';
+import { currencySymbol, priceTierLabel } from '../utils/currency.ts';
 
 const API = import.meta.env.VITE_API_URL || '/api';
 
 interface Props {
   wines: WineValueResult[];
   status: string;
+  parseInProgress: boolean;
   currency: string;
+  priceTiers: PriceTier[];
   sessionId: string;
   onStartLookup: () => void;
+  onCancelLookup: () => void;
   onEditWine: (index: number, updates: Record<string, unknown>) => void;
+  onRefreshWine: (index: number, options: RefreshOptions) => Promise<void>;
+  onChooseMatch: (index: number, name: string) => Promise<void>;
 }
 
-const CURRENCY_SYMBOLS: Record<string, string> = {
-  USD: '$', GBP: '\u00A3', EUR: '\u20AC', AUD: 'A$', CAD: 'C$', CHF: 'CHF ',
+const FORMAT_LABELS: Record<number, string> = {
+  187: 'Split', 375: 'Half', 500: '50cl', 750: 'Bottle', 1500: 'Magnum', 3000: 'Double Magnum',
 };
 
-type SortKey = 'name' | 'vintage' | 'restaurantPrice' | 'retailPriceAvg' | 'markupPercent' | 'criticScore' | 'communityScore' | 'valueScore';
+function formatLabel(ml: number): string {
+  return FORMAT_LABELS[ml] ?? (ml >= 1000 ? `${ml / 1000}L` : `${ml}ml`);
+}
+
+export const STYLE_LABELS: Record<WineStyle, string> = {
+  sparkling: 'Sparkling', white: 'White', rose: 'Ros\u00E9', red: 'Red', sweet: 'Sweet', fortified: 'Fortified',
+};
+
+const STYLE_DOTS: Record<WineStyle, string> = {
+  sparkling: 'bg-yellow-300', white: 'bg-amber-200', rose: 'bg-pink-300', red: 'bg-red-800', sweet: 'bg-amber-500', fortified: 'bg-amber-900',
+};
+
+type GroupBy = 'section' | 'style' | 'none';
+
+function matchTitle(match: WineMatch): string {
+  const matched = `Wine-Searcher matched \u201C${match.name}${match.vintage ? ` ${match.vintage}` : ''}\u201D`;
+  return match.accepted
+    ? `${matched} (${Math.round(match.confidence * 100)}% confidence)`
+    : `${matched}, which doesn't look like the same wine \u2014 its price and score were not used`;
+}
+
+// Sources offered when refreshing a single wine (names match the backend lookup providers)
+const REFRESH_SOURCES: { source?: string; label: string }[] = [
+  { label: 'All sources' },
+  { source: 'wine-searcher', label: 'Wine-Searcher API only' },
+  { source: 'web-search', label: 'Web search only' },
+];
+
+interface WineGroup {
+  key: string;
+  label: string | null;
+  wines: WineValueResult[];
+}
+
+type SortKey = 'menuOrder' | 'tierValue' | 'name' | 'vintage' | 'restaurantPrice' | 'retailPriceAvg' | 'markupPercent' | 'criticScore' | 'communityScore' | 'valueScore';
+
+function sourceTitle(source: string | undefined): string | undefined {
+  return source ? `via ${source}` : undefined;
+}
 
 // Bug fix #2: 4-tier markup color function + mini progress bar
-function markupColor(pct: number): { text: string; bg: string; bar: string } {
+export function markupColor(pct: number): { text: string; bg: string; bar: string } {
   if (pct <= 80) return { text: 'text-emerald-700', bg: 'bg-emerald-100', bar: 'bg-emerald-500' };
   if (pct <= 120) return { text: 'text-yellow-700', bg: 'bg-yellow-100', bar: 'bg-yellow-500' };
   if (pct <= 200) return { text: 'text-orange-700', bg: 'bg-orange-100', bar: 'bg-orange-500' };
   return { text: 'text-red-700', bg: 'bg-red-100', bar: 'bg-red-500' };
 }
 
-export default function WineTable({ wines, status, currency, sessionId, onStartLookup, onEditWine }: Props) {
-  const sym = CURRENCY_SYMBOLS[currency] || currency + ' ';
+export default function WineTable({ wines, status, parseInProgress, currency, priceTiers, sessionId, onStartLookup, onCancelLookup, onEditWine, onRefreshWine, onChooseMatch }: Props) {
+  const sym = currencySymbol(currency);
   const [sortKey, setSortKey] = useState<SortKey>('valueScore');
   const [sortAsc, setSortAsc] = useState(false);
   const [editIndex, setEditIndex] = useState<number | null>(null);
+  const [refreshIndex, setRefreshIndex] = useState<number | null>(null);
+  const [skipCache, setSkipCache] = useState(true);
+  const [refreshing, setRefreshing] = useState<Set<number>>(new Set());
+  const [matchIndex, setMatchIndex] = useState<number | null>(null);
+  const [groupByChoice, setGroupByChoice] = useState<GroupBy | null>(null);
+  const hasSections = wines.some(w => w.section);
+  // Default to the menu's own sections when the parser found any
+  const groupBy: GroupBy = groupByChoice ?? (hasSections ? 'section' : 'none');
 
   // Bug fix #1: WeakMap for stable original-index lookup (handles duplicates)
   const wineIndexMap = useMemo(() => {
@@ -41,10 +93,10 @@ export default function WineTable({ wines, status, currency, sessionId, onStartL
     return map;
   }, [wines]);
 
-  // Auto-start lookup as soon as wines are parsed
+  // Auto-start lookup as soon as the first wines are parsed — the rest are picked up as they arrive
   const [autoStarted, setAutoStarted] = useState(false);
   useEffect(() => {
-    if (status === 'parsed' && !autoStarted && wines.length > 0) {
+    if ((status === 'parsed' || status === 'parsing') && !autoStarted && wines.length > 0) {
       setAutoStarted(true);
       onStartLookup();
     }
@@ -62,6 +114,17 @@ export default function WineTable({ wines, status, currency, sessionId, onStartL
   const sorted = useMemo(() => {
     const copy = [...wines];
     copy.sort((a, b) => {
+      if (sortKey === 'menuOrder') {
+        const diff = (wineIndexMap.get(a) ?? 0) - (wineIndexMap.get(b) ?? 0);
+        return sortAsc ? diff : -diff;
+      }
+      if (sortKey === 'tierValue') {
+        // Best for its price first, whatever the price; unranked wines last
+        const aTop = a.tierRank?.topPercent ?? Infinity;
+        const bTop = b.tierRank?.topPercent ?? Infinity;
+        if (aTop !== bTop) return aTop - bTop;
+        return (b.valueScore ?? -1) - (a.valueScore ?? -1);
+      }
       const aVal = a[sortKey];
       const bVal = b[sortKey];
       if (aVal === null && bVal === null) return 0;
@@ -73,7 +136,27 @@ export default function WineTable({ wines, status, currency, sessionId, onStartL
       return sortAsc ? Number(aVal) - Number(bVal) : Number(bVal) - Number(aVal);
     });
     return copy;
-  }, [wines, sortKey, sortAsc]);
+  }, [wines, sortKey, sortAsc, wineIndexMap]);
+
+  // Groups appear in menu order; wines within a group follow the chosen sort
+  const groups = useMemo((): WineGroup[] => {
+    if (groupBy === 'none') return [{ key: 'all', label: null, wines: sorted }];
+
+    const groupKey = (w: WineValueResult) => (groupBy === 'section' ? w.section : w.style) ?? '';
+    const order: string[] = [];
+    for (const w of wines) {
+      const key = groupKey(w);
+      if (!order.includes(key)) order.push(key);
+    }
+
+    return order.map(key => ({
+      key,
+      label: groupBy === 'section'
+        ? key || 'Other wines'
+        : key ? STYLE_LABELS[key as WineStyle] : 'Other',
+      wines: sorted.filter(w => groupKey(w) === key),
+    }));
+  }, [groupBy, wines, sorted]);
 
   const lookupProgress = wines.filter(w => w.lookupStatus !== 'pending').length;
   const isLookingUp = status === 'looking_up';
@@ -81,7 +164,31 @@ export default function WineTable({ wines, status, currency, sessionId, onStartL
 
   // Bug fix #3: Detect retry phase — all attempted but status is still looking_up
   const allAttempted = wines.length > 0 && wines.every(w => w.lookupStatus !== 'pending');
-  const isRetrying = isLookingUp && allAttempted;
+  const isRetrying = isLookingUp && allAttempted && !parseInProgress;
+
+  // Runs a single-wine lookup, spinning that row's refresh icon until it returns
+  const whileRefreshing = async (index: number, work: () => Promise<void>) => {
+    setRefreshing(prev => new Set(prev).add(index));
+    try {
+      await work();
+    } finally {
+      setRefreshing(prev => {
+        const next = new Set(prev);
+        next.delete(index);
+        return next;
+      });
+    }
+  };
+
+  const refreshWine = (index: number, source?: string) => {
+    setRefreshIndex(null);
+    return whileRefreshing(index, () => onRefreshWine(index, { source, bypassCache: skipCache }));
+  };
+
+  const chooseMatch = (index: number, name: string) => {
+    setMatchIndex(null);
+    return whileRefreshing(index, () => onChooseMatch(index, name));
+  };
 
   const SortHeader = ({ label, field }: { label: string; field: SortKey }) => (
     <th
@@ -112,9 +219,17 @@ export default function WineTable({ wines, status, currency, sessionId, onStartL
                 {isRetrying ? 'Pass 2: Retrying missing wines...' : 'Looking up prices & ratings...'}
               </span>
             </div>
-            <span className="text-sm font-bold text-wine-700 tabular-nums">
-              {lookupProgress}/{wines.length} ({progressPct}%)
-            </span>
+            <div className="flex items-center gap-3">
+              <span className="text-sm font-bold text-wine-700 tabular-nums">
+                {lookupProgress}/{wines.length} ({progressPct}%)
+              </span>
+              <button
+                onClick={onCancelLookup}
+                className="text-xs font-medium text-wine-600 hover:text-wine-800 underline underline-offset-2"
+              >
+                Stop
+              </button>
+            </div>
           </div>
           <div className="w-full bg-wine-200/60 rounded-full h-1.5 overflow-hidden">
             <div
@@ -123,7 +238,11 @@ export default function WineTable({ wines, status, currency, sessionId, onStartL
             />
           </div>
           <p className="text-xs text-wine-500/80 mt-2">
-            {isRetrying ? 'Getting fresh results for wines with missing data' : 'Results appear below as they come in'}
+            {isRetrying
+              ? 'Getting fresh results for wines with missing data'
+              : parseInProgress
+                ? 'Still reading the list \u2014 new wines are looked up as they appear'
+                : 'Results appear below as they come in'}
           </p>
         </div>
       )}
@@ -132,14 +251,43 @@ export default function WineTable({ wines, status, currency, sessionId, onStartL
         <h2 className="text-lg font-semibold text-slate-800">
           {wines.length} Wine{wines.length !== 1 ? 's' : ''} Found
         </h2>
-        <div className="flex gap-2">
-          {status === 'parsed' && (
+        <div className="flex items-center gap-2">
+          <div className="inline-flex rounded-xl border border-slate-200 bg-white p-0.5 text-xs">
+            {(['section', 'style', 'none'] as GroupBy[]).map(option => (
+              <button
+                key={option}
+                onClick={() => setGroupByChoice(option)}
+                disabled={option === 'section' && !hasSections}
+                className={`px-2.5 py-1 rounded-lg font-medium transition-colors disabled:opacity-40 ${
+                  groupBy === option ? 'bg-wine-600 text-white' : 'text-slate-500 hover:text-wine-600'
+                }`}
+              >
+                {option === 'section' ? 'Menu sections' : option === 'style' ? 'Style' : 'No grouping'}
+              </button>
+            ))}
+          </div>
+          <button
+            onClick={() => { setSortKey('menuOrder'); setSortAsc(true); }}
+            className={`text-xs font-medium transition-colors ${sortKey === 'menuOrder' ? 'text-wine-600' : 'text-slate-400 hover:text-wine-600'}`}
+          >
+            Menu order
+          </button>
+          {priceTiers.length > 1 && (
+            <button
+              onClick={() => { setSortKey('tierValue'); setSortAsc(true); }}
+              className={`text-xs font-medium transition-colors ${sortKey === 'tierValue' ? 'text-wine-600' : 'text-slate-400 hover:text-wine-600'}`}
+              title="Rank wines against others at a similar menu price"
+            >
+              Best for the price
+            </button>
+          )}
+          {(status === 'parsed' || status === 'cancelled') && (
             <button onClick={onStartLookup} className="btn-primary">
-              Look Up Prices & Ratings
+              {status === 'cancelled' ? 'Resume Lookup' : 'Look Up Prices & Ratings'}
             </button>
           )}
-          {/* Bug fix #4: Only show Export when complete */}
-          {status === 'complete' && (
+          {/* Bug fix #4: Only show Export when complete (or stopped with partial results) */}
+          {(status === 'complete' || status === 'cancelled') && (
             <a href={`${API}/wines/${sessionId}/export`} className="btn-secondary">
               Export CSV
             </a>
@@ -164,104 +312,273 @@ export default function WineTable({ wines, status, currency, sessionId, onStartL
               </tr>
             </thead>
             <tbody className="divide-y divide-slate-100">
-              {sorted.map((wine) => {
-                const originalIndex = wineIndexMap.get(wine) ?? 0;
-                const lowConfidence = wine.confidence < 0.8;
-                return (
-                  <tr
-                    key={originalIndex}
-                    className={`hover:bg-slate-50/80 transition-colors ${lowConfidence ? 'bg-amber-50/40' : ''}`}
-                  >
-                    {/* Wine name — visual anchor */}
-                    <td className="px-3 py-3 max-w-[280px]">
-                      <div className="text-sm font-semibold text-slate-900 truncate">{wine.name}</div>
-                      <div className="text-xs text-slate-400 truncate">
-                        {wine.producer}{wine.region ? ` \u00B7 ${wine.region}` : ''}
-                      </div>
-                      {lowConfidence && (
-                        <span className="inline-flex items-center gap-1 text-[11px] text-amber-600 font-medium mt-0.5">
-                          <svg className="w-3 h-3" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01" />
-                          </svg>
-                          Review
-                        </span>
-                      )}
-                    </td>
-                    <td className="px-3 py-3 text-sm text-slate-500 tabular-nums">
-                      {wine.vintage ?? 'NV'}
-                    </td>
-                    <td className="px-3 py-3 text-sm font-semibold text-slate-900 tabular-nums">
-                      {sym}{wine.restaurantPrice}
-                    </td>
-                    <td className="px-3 py-3 text-sm text-slate-600 tabular-nums">
-                      {wine.retailPriceAvg !== null ? `${sym}${wine.retailPriceAvg}` : (
-                        wine.lookupStatus === 'pending' && isLookingUp ? (
-                          <span className="inline-block w-4 h-4 border-2 border-wine-400 border-t-transparent rounded-full animate-spin" />
-                        ) : wine.lookupStatus === 'not_found' ? (
-                          <span className="text-xs text-slate-300">N/A</span>
-                        ) : <span className="text-slate-300">--</span>
-                      )}
-                    </td>
-                    {/* Bug fix #2: Markup with gradient colors + mini bar */}
-                    <td className="px-3 py-3">
-                      {wine.markupPercent !== null ? (
-                        <div className="space-y-1">
-                          <span className={`text-sm font-medium tabular-nums ${markupColor(wine.markupPercent).text}`}>
-                            {wine.markupPercent}%
-                          </span>
-                          <div className={`w-12 h-1.5 rounded-full ${markupColor(wine.markupPercent).bg}`}>
-                            <div
-                              className={`h-full rounded-full ${markupColor(wine.markupPercent).bar}`}
-                              style={{ width: `${Math.min(100, (wine.markupPercent / 300) * 100)}%` }}
-                            />
-                          </div>
-                        </div>
-                      ) : <span className="text-sm text-slate-300">--</span>}
-                    </td>
-                    <td className="px-3 py-3 text-sm tabular-nums">
-                      {wine.criticScore !== null ? (
-                        <a
-                          href={wine.wineSearcherUrl ?? '#'}
-                          target="_blank"
-                          rel="noopener noreferrer"
-                          className="text-slate-700 underline decoration-slate-300 underline-offset-2 hover:text-wine-600 hover:decoration-wine-300 transition-colors"
+              {groups.map(group => (
+                <Fragment key={group.key}>
+                  {group.label !== null && (
+                    <tr className="bg-slate-50/60">
+                      <td colSpan={9} className="px-3 pt-4 pb-2">
+                        <span className="text-xs font-semibold uppercase tracking-wider text-wine-700">{group.label}</span>
+                        <span className="text-[11px] text-slate-400 ml-2">{group.wines.length}</span>
+                      </td>
+                    </tr>
+                  )}
+                  {group.wines.map((wine) => {
+                    const originalIndex = wineIndexMap.get(wine) ?? 0;
+                    const lowConfidence = wine.confidence < 0.8;
+                    const isRefreshing = refreshing.has(originalIndex);
+                    return (
+                      <Fragment key={originalIndex}>
+                        <tr
+                          className={`hover:bg-slate-50/80 transition-colors ${lowConfidence ? 'bg-amber-50/40' : ''}`}
                         >
-                          {wine.criticScore}
-                        </a>
-                      ) : <span className="text-slate-300">--</span>}
-                    </td>
-                    <td className="px-3 py-3 text-sm tabular-nums">
-                      {wine.communityScore !== null ? (
-                        <a
-                          href={wine.cellarTrackerUrl ?? '#'}
-                          target="_blank"
-                          rel="noopener noreferrer"
-                          className="text-slate-700 underline decoration-slate-300 underline-offset-2 hover:text-wine-600 hover:decoration-wine-300 transition-colors"
-                        >
-                          {wine.communityScore}
-                          {wine.communityReviewCount != null && wine.communityReviewCount > 0 && (
-                            <span className="text-[11px] text-slate-400 ml-1 no-underline">({wine.communityReviewCount})</span>
-                          )}
-                        </a>
-                      ) : <span className="text-slate-300">--</span>}
-                    </td>
-                    <td className="px-3 py-3">
-                      <ValueBadge score={wine.valueScore} />
-                    </td>
-                    <td className="px-3 py-3">
-                      <button
-                        onClick={() => setEditIndex(originalIndex)}
-                        className="text-slate-300 hover:text-wine-600 transition-colors"
-                        title="Edit wine"
-                      >
-                        <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15.232 5.232l3.536 3.536m-2.036-5.036a2.5 2.5 0 113.536 3.536L6.5 21.036H3v-3.572L16.732 3.732z" />
-                        </svg>
-                      </button>
-                    </td>
-                  </tr>
-                );
-              })}
+                          {/* Wine name — visual anchor */}
+                          <td className="px-3 py-3 max-w-[280px]">
+                            <div className="text-sm font-semibold text-slate-900 truncate flex items-center gap-1.5">
+                              {wine.style && (
+                                <span
+                                  className={`inline-block w-2 h-2 rounded-full shrink-0 ${STYLE_DOTS[wine.style]}`}
+                                  title={STYLE_LABELS[wine.style]}
+                                />
+                              )}
+                              <span className="truncate">{wine.name}</span>
+                            </div>
+                            <div className="text-xs text-slate-400 truncate">
+                              {wine.producer}{wine.region ? ` \u00B7 ${wine.region}` : ''}
+                            </div>
+                            {(lowConfidence || wine.warnings.length > 0 || wine.sourcePage !== null || wine.matchCandidates.length > 0 || wine.match !== null) && (
+                              <div className="flex items-center gap-2 mt-0.5">
+                                {lowConfidence && (
+                                  <span className="inline-flex items-center gap-1 text-[11px] text-amber-600 font-medium">
+                                    <svg className="w-3 h-3" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01" />
+                                    </svg>
+                                    Review
+                                  </span>
+                                )}
+                                {wine.warnings.length > 0 && (
+                                  <span
+                                    className="text-[11px] text-amber-600 cursor-help underline decoration-dotted decoration-amber-300 underline-offset-2"
+                                    title={wine.warnings.join('\n')}
+                                  >
+                                    {wine.warnings.length} warning{wine.warnings.length !== 1 ? 's' : ''}
+                                  </span>
+                                )}
+                                {wine.match !== null && (
+                                  <span
+                                    className={`text-[11px] cursor-help ${
+                                      !wine.match.accepted ? 'text-red-500 font-medium'
+                                        : wine.match.confidence < 0.8 ? 'text-amber-600'
+                                        : 'text-slate-400'
+                                    }`}
+                                    title={matchTitle(wine.match)}
+                                  >
+                                    {wine.match.accepted ? `${Math.round(wine.match.confidence * 100)}% match` : 'Match refused'}
+                                  </span>
+                                )}
+                                {wine.matchCandidates.length > 0 && (
+                                  <button
+                                    onClick={() => setMatchIndex(matchIndex === originalIndex ? null : originalIndex)}
+                                    disabled={isLookingUp || isRefreshing}
+                                    className="text-[11px] text-wine-600 font-medium underline decoration-wine-300 underline-offset-2 hover:text-wine-800 disabled:opacity-50"
+                                    title="Wine-Searcher found several wines for this entry — choose the right one"
+                                  >
+                                    {wine.matchCandidates.length} possible matches
+                                  </button>
+                                )}
+                                {wine.sourcePage !== null && (
+                                  <a
+                                    href={`${API}/wines/${sessionId}/${originalIndex}/source`}
+                                    target="_blank"
+                                    rel="noopener noreferrer"
+                                    className="text-[11px] text-slate-400 hover:text-wine-600 underline decoration-slate-300 underline-offset-2"
+                                    title={`${wine.sourceFile ?? 'Menu'}, page ${wine.sourcePage}`}
+                                  >
+                                    View on menu
+                                  </a>
+                                )}
+                              </div>
+                            )}
+                          </td>
+                          <td className="px-3 py-3 text-sm text-slate-500 tabular-nums">
+                            {wine.vintage ?? 'NV'}
+                          </td>
+                          <td className="px-3 py-3 text-sm font-semibold text-slate-900 tabular-nums">
+                            {sym}{wine.restaurantPrice}
+                            {wine.bottleSizeMl !== 750 && (
+                              <div className="text-[11px] font-medium text-wine-600">
+                                {wine.glassPrice === wine.restaurantPrice && wine.bottleSizeMl === wine.pourSizeMl
+                                  ? `Glass \u00B7 ${wine.bottleSizeMl}ml`
+                                  : formatLabel(wine.bottleSizeMl)}
+                              </div>
+                            )}
+                            {wine.glassPrice !== null && wine.glassPrice !== wine.restaurantPrice && (
+                              <div className="text-[11px] font-normal text-slate-400">
+                                {sym}{wine.glassPrice}/glass{wine.pourSizeMl ? ` (${wine.pourSizeMl}ml)` : ''}
+                              </div>
+                            )}
+                          </td>
+                          <td
+                            className="px-3 py-3 text-sm text-slate-600 tabular-nums"
+                            title={[
+                              sourceTitle(wine.fieldSources.retailPriceAvg),
+                              wine.bottleSizeMl !== 750 ? 'Retail price per 750ml bottle; markup is scaled to the listed format' : undefined,
+                            ].filter(Boolean).join(' \u00B7 ') || undefined}
+                          >
+                            {wine.retailPriceAvg !== null ? `${sym}${wine.retailPriceAvg}` : (
+                              wine.lookupStatus === 'pending' && isLookingUp ? (
+                                <span className="inline-block w-4 h-4 border-2 border-wine-400 border-t-transparent rounded-full animate-spin" />
+                              ) : wine.lookupStatus === 'not_found' ? (
+                                <span className="text-xs text-slate-300">N/A</span>
+                              ) : <span className="text-slate-300">--</span>
+                            )}
+                          </td>
+                          {/* Bug fix #2: Markup with gradient colors + mini bar */}
+                          <td className="px-3 py-3">
+                            {wine.markupPercent !== null ? (
+                              <div className="space-y-1">
+                                <span className={`text-sm font-medium tabular-nums ${markupColor(wine.markupPercent).text}`}>
+                                  {wine.markupPercent}%
+                                </span>
+                                <div className={`w-12 h-1.5 rounded-full ${markupColor(wine.markupPercent).bg}`}>
+                                  <div
+                                    className={`h-full rounded-full ${markupColor(wine.markupPercent).bar}`}
+                                    style={{ width: `${Math.min(100, (wine.markupPercent / 300) * 100)}%` }}
+                                  />
+                                </div>
+                              </div>
+                            ) : <span className="text-sm text-slate-300">--</span>}
+                          </td>
+                          <td className="px-3 py-3 text-sm tabular-nums">
+                            {wine.criticScore !== null ? (
+                              <a
+                                href={wine.wineSearcherUrl ?? '#'}
+                                target="_blank"
+                                rel="noopener noreferrer"
+                                title={sourceTitle(wine.fieldSources.criticScore)}
+                                className="text-slate-700 underline decoration-slate-300 underline-offset-2 hover:text-wine-600 hover:decoration-wine-300 transition-colors"
+                              >
+                                {wine.criticScore}
+                              </a>
+                            ) : <span className="text-slate-300">--</span>}
+                          </td>
+                          <td className="px-3 py-3 text-sm tabular-nums">
+                            {wine.communityScore !== null ? (
+                              <a
+                                href={wine.cellarTrackerUrl ?? '#'}
+                                target="_blank"
+                                rel="noopener noreferrer"
+                                title={sourceTitle(wine.fieldSources.communityScore)}
+                                className="text-slate-700 underline decoration-slate-300 underline-offset-2 hover:text-wine-600 hover:decoration-wine-300 transition-colors"
+                              >
+                                {wine.communityScore}
+                                {wine.communityReviewCount != null && wine.communityReviewCount > 0 && (
+                                  <span className="text-[11px] text-slate-400 ml-1 no-underline">({wine.communityReviewCount})</span>
+                                )}
+                              </a>
+                            ) : <span className="text-slate-300">--</span>}
+                          </td>
+                          <td className="px-3 py-3">
+                            <ValueBadge
+                              score={wine.valueScore}
+                              quality={wine.qualityEstimate}
+                              uncertainty={wine.qualityUncertainty}
+                              tierRank={wine.tierRank}
+                              breakdown={wine.scoreBreakdown}
+                              currencySymbol={sym}
+                              tierLabel={wine.priceTier !== null && priceTiers[wine.priceTier] ? priceTierLabel(priceTiers[wine.priceTier], sym) : undefined}
+                            />
+                          </td>
+                          <td className="px-3 py-3">
+                            <div className="flex items-center gap-2">
+                              <button
+                                onClick={() => setRefreshIndex(refreshIndex === originalIndex ? null : originalIndex)}
+                                disabled={isLookingUp || isRefreshing}
+                                className="text-slate-300 hover:text-wine-600 transition-colors disabled:hover:text-slate-300"
+                                title={isLookingUp ? 'Available once the lookup finishes' : 'Look up this wine again'}
+                              >
+                                <svg className={`w-4 h-4 ${isRefreshing ? 'animate-spin text-wine-500' : ''}`} fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+                                </svg>
+                              </button>
+                              <button
+                                onClick={() => setEditIndex(originalIndex)}
+                                className="text-slate-300 hover:text-wine-600 transition-colors"
+                                title="Edit wine"
+                              >
+                                <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15.232 5.232l3.536 3.536m-2.036-5.036a2.5 2.5 0 113.536 3.536L6.5 21.036H3v-3.572L16.732 3.732z" />
+                                </svg>
+                              </button>
+                            </div>
+                          </td>
+                        </tr>
+                        {/* Ambiguous Wine-Searcher match — the user picks which wine this entry is */}
+                        {matchIndex === originalIndex && (
+                          <tr className="bg-wine-50/40">
+                            <td colSpan={9} className="px-3 py-2">
+                              <div className="text-xs text-slate-500 mb-1.5">Which wine is this?</div>
+                              <div className="flex flex-wrap items-center gap-2 text-xs">
+                                {wine.matchCandidates.map(candidate => (
+                                  <button
+                                    key={candidate.name}
+                                    onClick={() => chooseMatch(originalIndex, candidate.name)}
+                                    className="px-2.5 py-1 rounded-lg border border-slate-200 bg-white text-left text-slate-700 hover:border-wine-300 hover:text-wine-600 transition-colors"
+                                  >
+                                    <span className="font-medium">{candidate.name}</span>
+                                    {candidate.vintage !== null && <span className="text-slate-400"> {candidate.vintage}</span>}
+                                    {candidate.retailPriceAvg !== null && <span className="text-slate-400"> {'\u00B7'} {sym}{candidate.retailPriceAvg}</span>}
+                                    {candidate.criticScore !== null && <span className="text-slate-400"> {'\u00B7'} {candidate.criticScore} pts</span>}
+                                  </button>
+                                ))}
+                                <button
+                                  onClick={() => setMatchIndex(null)}
+                                  className="ml-2 text-slate-400 hover:text-slate-600"
+                                >
+                                  Cancel
+                                </button>
+                              </div>
+                            </td>
+                          </tr>
+                        )}
+                        {/* Refresh options — an extra row rather than a dropdown, so the scrolling table can't clip it */}
+                        {refreshIndex === originalIndex && (
+                          <tr className="bg-wine-50/40">
+                            <td colSpan={9} className="px-3 py-2">
+                              <div className="flex flex-wrap items-center justify-end gap-2 text-xs">
+                                <span className="text-slate-500 mr-1">Look up again from:</span>
+                                {REFRESH_SOURCES.map(option => (
+                                  <button
+                                    key={option.label}
+                                    onClick={() => refreshWine(originalIndex, option.source)}
+                                    className="px-2.5 py-1 rounded-lg border border-slate-200 bg-white font-medium text-slate-600 hover:border-wine-300 hover:text-wine-600 transition-colors"
+                                  >
+                                    {option.label}
+                                  </button>
+                                ))}
+                                <label className="inline-flex items-center gap-1.5 ml-2 text-slate-500">
+                                  <input
+                                    type="checkbox"
+                                    checked={skipCache}
+                                    onChange={e => setSkipCache(e.target.checked)}
+                                    className="accent-wine-600"
+                                  />
+                                  Skip cached results
+                                </label>
+                                <button
+                                  onClick={() => setRefreshIndex(null)}
+                                  className="ml-2 text-slate-400 hover:text-slate-600"
+                                >
+                                  Cancel
+                                </button>
+                              </div>
+                            </td>
+                          </tr>
+                        )}
+                      </Fragment>
+                    );
+                  })}
+                </Fragment>
+              ))}
             </tbody>
           </table>
         </div>
@@ -271,6 +588,7 @@ export default function WineTable({ wines, status, currency, sessionId, onStartL
         <EditWineModal
           wine={wines[editIndex]}
           index={editIndex}
+          sourceUrl={`${API}/wines/${sessionId}/${editIndex}/source`}
           onSave={onEditWine}
           onClose={() => setEditIndex(null)}
         />
@@ -1,12 +1,37 @@
 import { useState, useEffect, useRef, useCallback } from 'react';
-import type { SessionData } from '../types/wine.ts';
+import type { LookupStatus, MarkupSummary, RecommendationFilters, Recommendations, RefreshOptions, ScoringProfile, SessionData } from '../types/wine.ts';
 
 const API = import.meta.env.VITE_API_URL || '/api';
 
+// The scoring profile last picked, used for new lists too
+const PROFILE_KEY = 'wine-value-finder:scoring-profile';
+
+// Reasons a lookup would run past its API budget; empty when it fits
+function budgetWarnings({ wineSearcher, anthropic, estimate }: LookupStatus): string[] {
+  const warnings: string[] = [];
+  const calls = estimate?.wineSearcherCalls ?? 0;
+  if (calls > 0 && wineSearcher.remaining !== null && calls > wineSearcher.remaining) {
+    // Below what's left of the daily limit means the per-list limit is the one binding
+    const leftToday = wineSearcher.dailyLimit === null ? Infinity : wineSearcher.dailyLimit - wineSearcher.callsToday;
+    const limit = wineSearcher.remaining < leftToday ? 'for this list' : 'today';
+    warnings.push(
+      `This list needs about ${calls} Wine-Searcher calls but only ${wineSearcher.remaining} are left ${limit}. ` +
+      'The rest will be priced by web search, which is slower and less precise.'
+    );
+  }
+  if (anthropic.tokensRemaining === 0) {
+    warnings.push('The web search token budget is used up, so wines Wine-Searcher can\'t price will be left without data.');
+  }
+  return warnings;
+}
+
 export function useWineSession() {
   const [session, setSession] = useState<SessionData | null>(null);
   const [uploading, setUploading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [budgetWarning, setBudgetWarning] = useState<string[] | null>(null);
+  const [profiles, setProfiles] = useState<ScoringProfile[]>([]);
+  const [preferredProfile, setPreferredProfile] = useState(() => localStorage.getItem(PROFILE_KEY));
   const pollRef = useRef<ReturnType<typeof setInterval> | null>(null);
 
   const stopPolling = useCallback(() => {
@@ -24,7 +49,8 @@ export function useWineSession() {
         if (!res.ok) return;
         const data: SessionData = await res.json();
         setSession(data);
-        if (data.status === 'complete' || data.status === 'error') {
+        // A lookup can finish or be cancelled while the list is still being read; wines keep arriving until it's done
+        if ((data.status === 'complete' || data.status === 'cancelled' || data.status === 'error') && !data.parseInProgress) {
           stopPolling();
         }
       } catch {
@@ -40,23 +66,66 @@ export function useWineSession() {
     return () => stopPolling();
   }, [stopPolling]);
 
-  const upload = useCallback(async (file: File) => {
+  useEffect(() => {
+    fetch(`${API}/scoring/profiles`)
+      .then(res => (res.ok ? res.json() : { profiles: [] }))
+      .then(body => setProfiles(body.profiles))
+      .catch(() => { /* the picker just stays hidden */ });
+  }, []);
+
+  // Only ask for a remembered profile the server still has
+  const profileForNewList = profiles.some(p => p.name === preferredProfile) ? preferredProfile : null;
+
+  const postFiles = useCallback(async (url: string, files: File[], profile?: string | null) => {
+    const formData = new FormData();
+    if (profile) formData.append('profile', profile);
+    for (const file of files) {
+      formData.append('winelist', file);
+    }
+
+    const res = await fetch(url, {
+      method: 'POST',
+      body: formData,
+    });
+
+    if (!res.ok) {
+      const body = await res.json().catch(() => ({ error: 'Upload failed' }));
+      throw new Error(body.error || 'Upload failed');
+    }
+
+    const { sessionId } = await res.json();
+    pollSession(sessionId);
+  }, [pollSession]);
+
+  const upload = useCallback(async (files: File[]) => {
     setUploading(true);
     setError(null);
     setSession(null);
 
     try {
-      const formData = new FormData();
-      formData.append('winelist', file);
+      await postFiles(`${API}/upload`, files, profileForNewList);
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setUploading(false);
+    }
+  }, [postFiles, profileForNewList]);
+
+  const importUrl = useCallback(async (url: string) => {
+    setUploading(true);
+    setError(null);
+    setSession(null);
 
-      const res = await fetch(`${API}/upload`, {
+    try {
+      const res = await fetch(`${API}/upload/url`, {
         method: 'POST',
-        body: formData,
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ url, profile: profileForNewList ?? undefined }),
       });
 
       if (!res.ok) {
-        const body = await res.json().catch(() => ({ error: 'Upload failed' }));
-        throw new Error(body.error || 'Upload failed');
+        const body = await res.json().catch(() => ({ error: 'Import failed' }));
+        throw new Error(body.error || 'Import failed');
       }
 
       const { sessionId } = await res.json();
@@ -66,13 +135,45 @@ export function useWineSession() {
     } finally {
       setUploading(false);
     }
-  }, [pollSession]);
+  }, [pollSession, profileForNewList]);
+
+  // Add more pages to the current session — parsed wines are merged into the existing list
+  const addFiles = useCallback(async (files: File[]) => {
+    if (!session) return;
+    setUploading(true);
+    setError(null);
+
+    try {
+      await postFiles(`${API}/upload/${session.id}`, files);
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setUploading(false);
+    }
+  }, [session, postFiles]);
 
-  const startLookup = useCallback(async () => {
+  // Checks the API budget first; a lookup that would exceed it waits for `startLookup(true)`.
+  // The server makes the same check for wines parsed after the lookup starts.
+  const startLookup = useCallback(async (overBudgetOk = false) => {
     if (!session) return;
     setError(null);
+    if (!overBudgetOk) {
+      const status: LookupStatus | null = await fetch(`${API}/lookup/status?sessionId=${session.id}`)
+        .then(res => (res.ok ? res.json() : null))
+        .catch(() => null); // no status: don't hold the lookup up
+      const warnings = status ? budgetWarnings(status) : [];
+      if (warnings.length > 0) {
+        setBudgetWarning(warnings);
+        return;
+      }
+    }
+    setBudgetWarning(null);
     try {
-      const res = await fetch(`${API}/lookup/${session.id}`, { method: 'POST' });
+      const res = await fetch(`${API}/lookup/${session.id}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ overBudgetOk }),
+      });
       if (!res.ok) {
         const body = await res.json().catch(() => ({ error: 'Lookup failed' }));
         throw new Error(body.error || 'Lookup failed');
@@ -83,6 +184,27 @@ export function useWineSession() {
     }
   }, [session, pollSession]);
 
+  // A lookup paused for budget asks again, now with every wine parsed so far in the estimate
+  const budgetPaused = session?.budgetPaused === true && session.status === 'cancelled';
+  useEffect(() => {
+    if (budgetPaused) startLookup();
+  }, [budgetPaused]); // once per pause — startLookup changes with every poll
+
+  // Stop a running lookup; wines already looked up keep their results
+  const cancelLookup = useCallback(async () => {
+    if (!session) return;
+    try {
+      const res = await fetch(`${API}/lookup/${session.id}`, { method: 'DELETE' });
+      if (res.ok) {
+        const data: SessionData = await res.json();
+        if (!data.parseInProgress) stopPolling();
+        setSession(data);
+      }
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  }, [session, stopPolling]);
+
   const editWine = useCallback(async (index: number, updates: Record<string, unknown>) => {
     if (!session) return;
     try {
@@ -91,21 +213,118 @@ export function useWineSession() {
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify(updates),
       });
-      if (res.ok) {
-        const data = await res.json();
-        setSession(data);
+      if (!res.ok) {
+        const body = await res.json().catch(() => ({ error: 'Could not save the edit' }));
+        throw new Error(body.error || 'Could not save the edit');
+      }
+      setSession(await res.json());
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  }, [session]);
+
+  // Look up one wine again, optionally from a single source and ignoring cached results
+  const refreshWine = useCallback(async (index: number, options: RefreshOptions) => {
+    if (!session) return;
+    setError(null);
+    try {
+      const res = await fetch(`${API}/lookup/${session.id}/${index}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(options),
+      });
+      if (!res.ok) {
+        const body = await res.json().catch(() => ({ error: 'Refresh failed' }));
+        throw new Error(body.error || 'Refresh failed');
+      }
+      setSession(await res.json());
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  }, [session]);
+
+  // Pick the right wine when Wine-Searcher matched several; remembered for next time
+  const chooseMatch = useCallback(async (index: number, name: string) => {
+    if (!session) return;
+    setError(null);
+    try {
+      const res = await fetch(`${API}/lookup/${session.id}/${index}/match`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name }),
+      });
+      if (!res.ok) {
+        const body = await res.json().catch(() => ({ error: 'Could not use that match' }));
+        throw new Error(body.error || 'Could not use that match');
+      }
+      setSession(await res.json());
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  }, [session]);
+
+  // Rescore the list with another profile — uses the data already looked up
+  const changeProfile = useCallback(async (name: string) => {
+    localStorage.setItem(PROFILE_KEY, name);
+    setPreferredProfile(name);
+    if (!session) return;
+    try {
+      const res = await fetch(`${API}/scoring/${session.id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ profile: name }),
+      });
+      if (!res.ok) {
+        const body = await res.json().catch(() => ({ error: 'Could not change the scoring profile' }));
+        throw new Error(body.error || 'Could not change the scoring profile');
       }
+      setSession(await res.json());
     } catch (err) {
       setError((err as Error).message);
     }
   }, [session]);
 
+  // Best-value picks for the filters; unset filters are left out of the query
+  const getRecommendations = useCallback(async (filters: Partial<RecommendationFilters>): Promise<Recommendations> => {
+    if (!session) throw new Error('No wine list loaded');
+    const query = new URLSearchParams();
+    for (const [key, value] of Object.entries(filters)) {
+      if (value !== null && value !== undefined && value !== '') query.set(key, String(value));
+    }
+    const res = await fetch(`${API}/wines/${session.id}/recommendations?${query}`);
+    if (!res.ok) {
+      const body = await res.json().catch(() => ({ error: 'Could not get recommendations' }));
+      throw new Error(body.error || 'Could not get recommendations');
+    }
+    return res.json();
+  }, [session?.id]);
+
+  // The restaurant's markups across the list, by price tier, region and style
+  const getMarkupSummary = useCallback(async (): Promise<MarkupSummary> => {
+    if (!session) throw new Error('No wine list loaded');
+    const res = await fetch(`${API}/wines/${session.id}/summary`);
+    if (!res.ok) {
+      const body = await res.json().catch(() => ({ error: 'Could not summarise the list' }));
+      throw new Error(body.error || 'Could not summarise the list');
+    }
+    return res.json();
+  }, [session?.id]);
+
   const reset = useCallback(() => {
+    // Don't leave an abandoned lookup burning API budget
+    if (session?.status === 'looking_up') {
+      fetch(`${API}/lookup/${session.id}`, { method: 'DELETE' }).catch(() => { /* ignore */ });
+    }
     stopPolling();
     setSession(null);
     setUploading(false);
     setError(null);
-  }, [stopPolling]);
+    setBudgetWarning(null);
+  }, [session, stopPolling]);
 
-  return { session, uploading, error, upload, startLookup, editWine, reset };
+  return {
+    session, uploading, error, budgetWarning, profiles,
+    upload, importUrl, addFiles, startLookup, cancelLookup, editWine, refreshWine, chooseMatch, changeProfile,
+    getRecommendations, getMarkupSummary, reset,
+  };
 }
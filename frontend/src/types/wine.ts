@@ -1,12 +1,128 @@
+export type WineStyle = 'red' | 'white' | 'rose' | 'sparkling' | 'sweet' | 'fortified';
+
+export interface SourceBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface SourceFile {
+  id: string;
+  name: string;
+  ext: string;
+}
+
 export interface ParsedWine {
   name: string;
   producer: string;
   vintage: number | null;
   region: string;
   grapeVariety: string;
+  section: string | null;
+  style: WineStyle | null;
   restaurantPrice: number;
+  bottleSizeMl: number;
+  glassPrice: number | null;
+  pourSizeMl: number | null;
   rawText: string;
   confidence: number;
+  warnings: string[];
+  sourceFile?: string;
+  sourceFileId?: string;
+  sourcePage: number | null;
+  sourceBox: SourceBox | null;
+}
+
+export interface ParseFailure {
+  sourceFile?: string;
+  pages?: string;
+  error: string;
+}
+
+export interface RejectedWine {
+  sourceFile?: string;
+  rawText: string;
+  reason: string;
+}
+
+export interface ParseReport {
+  extracted: number;
+  rejected: RejectedWine[];
+}
+
+export interface FieldSources {
+  retailPriceAvg?: string;
+  retailPriceMin?: string;
+  criticScore?: string;
+  communityScore?: string;
+}
+
+// One of several wines Wine-Searcher matched for the menu text
+export interface MatchCandidate {
+  name: string;
+  vintage: number | null;
+  retailPriceAvg: number | null;
+  criticScore: number | null;
+}
+
+// The wine a lookup provider matched the menu entry to
+export interface WineMatch {
+  name: string;
+  vintage: number | null;
+  confidence: number; // 0–1 similarity to the menu entry
+  accepted: boolean; // false when the match was refused and its data not used
+}
+
+// A band of menu prices: from `min` (inclusive) up to `max` (exclusive; null = no upper bound)
+export interface PriceTier {
+  min: number;
+  max: number | null;
+}
+
+// Where a wine's value score places it among the scored wines in its price tier
+export interface TierRank {
+  rank: number; // 1 = best value in the tier
+  of: number;
+  topPercent: number;
+}
+
+// What a community score is shrunk toward: well-reviewed wines from the same region on the list,
+// typical scores for the wine's retail price band, or a general default
+export type PriorBasis = 'region' | 'price band' | 'default';
+
+// Every number that went into a wine's value score, so "why is this a 38?"
+// can be answered without redoing the maths. Sources are lookup provider names.
+export interface ScoreBreakdown {
+  profile: string | null; // scoring profile name
+  critic: { score: number; source: string | null; uncertainty: number } | null;
+  community: {
+    score: number;
+    source: string | null;
+    reviewCount: number | null; // as reported; null = unknown
+    reviewsCounted: number; // what the shrinking used
+    prior: number;
+    priorBasis: PriorBasis;
+    priorReviews: number; // how many reviews the prior counts as
+    adjusted: number; // after shrinking toward the prior
+    uncertainty: number;
+  } | null;
+  weights: { critic: number; community: number }; // the profile's, before confidence
+  criticShare: number; // share of the quality estimate from the critic score, after confidence
+  quality: number;
+  qualityUncertainty: number;
+  qualityFloor: number;
+  belowFloor: boolean;
+  restaurantPrice: number;
+  bottleSizeMl: number;
+  retailPrice: number; // average retail per 750ml
+  retailSource: string | null;
+  retailForFormat: number; // scaled to the listed bottle size
+  markupRatio: number;
+  markupExponent: number;
+  rawScore: number; // quality / markupRatio^markupExponent, before rounding and clamping
+  clamped: 'min' | 'max' | null; // raw score was below 0 or above 100
+  valueScore: number;
 }
 
 export interface WineValueResult extends ParsedWine {
@@ -18,15 +134,131 @@ export interface WineValueResult extends ParsedWine {
   lookupStatus: 'pending' | 'found' | 'partial' | 'not_found' | 'error';
   wineSearcherUrl: string | null;
   cellarTrackerUrl: string | null;
+  fieldSources: FieldSources;
+  matchCandidates: MatchCandidate[]; // non-empty while the Wine-Searcher match is ambiguous
+  match: WineMatch | null;
+  qualityEstimate: number | null; // critic and community scores combined, weighted by how reliable each is
+  qualityUncertainty: number | null; // ± points on qualityEstimate
   markupPercent: number | null;
   valueScore: number | null;
+  scoreBreakdown: ScoreBreakdown | null;
+  priceTier: number | null; // index into the session's priceTiers
+  tierRank: TierRank | null;
+}
+
+// Options for looking up a single wine again (POST /api/lookup/:sessionId/:index)
+export interface RefreshOptions {
+  source?: string; // lookup provider name, e.g. "wine-searcher" or "web-search"; omitted = all sources
+  bypassCache?: boolean;
+}
+
+// A named value score model (GET /api/scoring/profiles)
+export interface ScoringProfile {
+  name: string;
+  label: string;
+  description: string;
+  criticWeight: number;
+  communityWeight: number;
+  markupExponent: number;
+  qualityFloor: number;
+}
+
+// API calls and tokens spent by a list's lookups
+export interface ApiUsage {
+  wineSearcherCalls: number;
+  anthropicRequests: number;
+  anthropicInputTokens: number;
+  anthropicOutputTokens: number;
+}
+
+// GET /api/lookup/status?sessionId= — limits are null when not set
+export interface LookupStatus {
+  date: string;
+  cacheSize: number;
+  wineSearcher: {
+    callsToday: number;
+    dailyLimit: number | null;
+    sessionCalls: number | null;
+    sessionLimit: number | null;
+    remaining: number | null;
+  };
+  anthropic: {
+    requestsToday: number;
+    inputTokensToday: number;
+    outputTokensToday: number;
+    dailyTokenLimit: number | null;
+    sessionTokens: number | null;
+    sessionTokenLimit: number | null;
+    tokensRemaining: number | null;
+  };
+  estimate: { wines: number; wineSearcherCalls: number } | null;
+}
+
+export interface RecommendationFilters {
+  maxPrice: number | null;
+  style: WineStyle | null;
+  region: string | null;
+  grape: string | null;
+  minQuality: number | null;
+  limit: number;
+}
+
+export interface Recommendation {
+  rank: number;
+  index: number; // position in the session's wines
+  wine: WineValueResult;
+  reason: string;
+}
+
+export interface Recommendations {
+  filters: RecommendationFilters;
+  matched: number; // scored wines that pass the filters
+  unscored: number; // wines that pass the filters but have no value score yet
+  picks: Recommendation[];
+}
+
+export interface MarkupStats {
+  count: number;
+  mean: number;
+  median: number;
+  p25: number;
+  p75: number;
+  min: number;
+  max: number;
+  stdDev: number;
+}
+
+export interface MarkupOutlier {
+  index: number;
+  name: string;
+  producer: string;
+  vintage: number | null;
+  restaurantPrice: number;
+  markupPercent: number;
+}
+
+export interface MarkupSummary {
+  coverage: { wines: number; priced: number; scored: number; scoredShare: number };
+  overall: MarkupStats | null;
+  byTier: { tier: PriceTier; stats: MarkupStats | null }[];
+  byRegion: { region: string; stats: MarkupStats }[];
+  byStyle: { style: WineStyle | null; stats: MarkupStats }[];
+  outliers: { high: MarkupOutlier[]; low: MarkupOutlier[] };
 }
 
 export interface SessionData {
   id: string;
   wines: WineValueResult[];
   currency: string;
-  status: 'parsing' | 'parsed' | 'looking_up' | 'complete' | 'error';
+  sourceFiles: SourceFile[];
+  parseFailures: ParseFailure[];
+  parseReport: ParseReport;
+  status: 'parsing' | 'parsed' | 'looking_up' | 'complete' | 'cancelled' | 'error';
+  parseInProgress: boolean; // documents still being read — wines keep arriving, even once lookup has started
   createdAt: string;
+  apiUsage: ApiUsage;
+  scoringProfile: string;
+  priceTiers: PriceTier[];
+  budgetPaused?: boolean; // lookup stopped before wines parsed since it started went over budget
   error?: string;
 }
@@ -0,0 +1,19 @@
+import type { PriceTier } from '../types/wine.ts';
+
+// Symbol to show before prices in any ISO currency: "£", "€", "A$", or the code plus a space ("CHF ")
+export function currencySymbol(code: string): string {
+  try {
+    const symbol = new Intl.NumberFormat('en', { style: 'currency', currency: code })
+      .formatToParts(0)
+      .find(part => part.type === 'currency')?.value ?? code;
+    return /^[A-Z]+$/i.test(symbol) ? `${symbol} ` : symbol;
+  } catch {
+    return `${code} `;
+  }
+}
+
+// "under £40", "£40–£80", "£150+"
+export function priceTierLabel({ min, max }: PriceTier, symbol: string): string {
+  if (max === null) return min > 0 ? `${symbol}${min}+` : 'at any price';
+  return min > 0 ? `${symbol}${min}\u2013${symbol}${max}` : `under ${symbol}${max}`;
+}